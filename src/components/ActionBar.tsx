@@ -1,10 +1,25 @@
 import { Button } from "@/components/ui/button";
-import { Download, FolderArchive, RotateCcw, Sparkles, Loader2, FileImage } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { RegionFilterMenu } from "@/components/RegionFilterMenu";
+import { CropRegion, DetectionMode } from "@/types/crop";
+import { RegionFilter } from "@/lib/regionTypes";
+import { Download, FolderArchive, RotateCcw, Sparkles, Loader2, FileImage, Undo2, Redo2, Settings2 } from "lucide-react";
 
 interface ActionBarProps {
   onDetect: () => void;
   onDownloadAll: () => void;
   onReset: () => void;
+  detectionMode: DetectionMode;
+  onDetectionModeChange: (mode: DetectionMode) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** All regions of the active image, for the type filter counts */
+  regions: CropRegion[];
+  regionFilter: RegionFilter;
+  onRegionFilterChange: (filter: RegionFilter) => void;
+  onOpenExportSettings: () => void;
   isDetecting: boolean;
   hasRegions: boolean;
   hasImage: boolean;
@@ -15,6 +30,16 @@ export function ActionBar({
   onDetect,
   onDownloadAll,
   onReset,
+  detectionMode,
+  onDetectionModeChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  regions,
+  regionFilter,
+  onRegionFilterChange,
+  onOpenExportSettings,
   isDetecting,
   hasRegions,
   hasImage,
@@ -23,6 +48,21 @@ export function ActionBar({
   return (
     <div className="flex flex-wrap items-center justify-between gap-4 p-4 glass rounded-xl">
       <div className="flex items-center gap-3">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={detectionMode}
+          onValueChange={(value) => value && onDetectionModeChange(value as DetectionMode)}
+          disabled={isDetecting}
+        >
+          <ToggleGroupItem value="ai" title="Detect with the AI service">
+            AI
+          </ToggleGroupItem>
+          <ToggleGroupItem value="local" title="Detect offline in the browser - the image never leaves this device">
+            Local
+          </ToggleGroupItem>
+        </ToggleGroup>
         <Button onClick={onDetect} disabled={!hasImage || isDetecting} className="gap-2">
           {isDetecting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
           {isDetecting ? "Scanning for images..." : "Scan for images"}
@@ -42,6 +82,29 @@ export function ActionBar({
       </div>
 
       <div className="flex items-center gap-3">
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo || isDetecting} title="Undo (⌘/Ctrl+Z)">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onRedo}
+            disabled={!canRedo || isDetecting}
+            title="Redo (⌘/Ctrl+Shift+Z)"
+          >
+            <Redo2 className="w-4 h-4" />
+          </Button>
+        </div>
+        <RegionFilterMenu
+          regions={regions}
+          filter={regionFilter}
+          onFilterChange={onRegionFilterChange}
+          disabled={isDetecting || regions.length === 0}
+        />
+        <Button variant="outline" size="icon" onClick={onOpenExportSettings} disabled={!hasImage} title="Export settings">
+          <Settings2 className="w-4 h-4" />
+        </Button>
         <Button variant="secondary" onClick={onDownloadAll} disabled={!hasRegions} className="gap-2">
           <FolderArchive className="w-4 h-4" />
           Download All (ZIP)
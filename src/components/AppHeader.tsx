@@ -0,0 +1,41 @@
+import { ImageUpscale } from "lucide-react";
+import { NavLink } from "@/components/NavLink";
+
+export function AppHeader() {
+  return (
+    <header className="relative sticky top-0 z-50 overflow-hidden border-b border-border/30">
+      {/* Animated gradient background */}
+      <div className="absolute inset-0 bg-gradient-to-r from-blue-600/20 via-cyan-500/15 to-emerald-500/20 bg-[length:200%_100%] animate-gradient-shift" />
+      <div className="absolute inset-0 bg-background/85 backdrop-blur-xl" />
+
+      <div className="relative container py-8">
+        <div className="flex flex-col items-center justify-center text-center md:text-left">
+          <h1 className="flex items-center gap-4 text-4xl md:text-3xl font-bold">
+            <ImageUpscale />
+            <span className="textGradientBlueToGreen">Image Slicer</span>
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">Extract images from screenshots & mockups</p>
+        </div>
+
+        <nav className="mt-4 flex justify-center gap-4 text-sm md:absolute md:right-8 md:top-1/2 md:mt-0 md:-translate-y-1/2">
+          {/* Goes back to the project being edited; Projects > New project starts an empty one */}
+          <NavLink
+            to="/"
+            end
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            activeClassName="text-foreground font-medium"
+          >
+            Editor
+          </NavLink>
+          <NavLink
+            to="/projects"
+            className="text-muted-foreground hover:text-foreground transition-colors"
+            activeClassName="text-foreground font-medium"
+          >
+            Projects
+          </NavLink>
+        </nav>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,315 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { CropRegion } from "@/types/crop";
+import { ExportSettings, RegionExportOverrides } from "@/types/export";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { OptimizationResult, cropImageForComparison, formatFileSize } from "@/lib/imageUtils";
+import { QualityScores, decodeToCanvas, measureQuality } from "@/lib/compareQuality";
+import { FORMAT_OPTIONS, resolveExportSettings } from "@/lib/exportVariants";
+import { cn } from "@/lib/utils";
+import { Loader2 } from "lucide-react";
+
+interface CompareDialogProps {
+  /** The region to compare; the dialog is open while it is set */
+  region: CropRegion | null;
+  onClose: () => void;
+  imageSrc: string;
+  originalWidth: number;
+  originalHeight: number;
+  displayWidth: number;
+  displayHeight: number;
+  exportSettings: ExportSettings;
+  onApplyToRegion: (overrides: RegionExportOverrides) => void;
+  onApplyToExport: (settings: ExportSettings) => void;
+}
+
+interface Comparison {
+  originalUrl: string;
+  encodedUrl: string;
+  width: number;
+  height: number;
+  encoded: OptimizationResult;
+  scores: QualityScores;
+}
+
+type CompareFormat = ExportSettings["format"];
+
+// Delay before re-encoding after format or quality change (ms)
+const ENCODE_DELAY = 300;
+
+/**
+ * Quality the given format starts from; Auto starts from WebP, which it uses for opaque crops
+ */
+function qualityFor(settings: ExportSettings, format: CompareFormat): number {
+  return format === "auto" || format === "png" ? settings.encoders.webp.quality : settings.encoders[format].quality;
+}
+
+function canvasToUrl(canvas: HTMLCanvasElement): Promise<string> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(URL.createObjectURL(blob)) : reject(new Error("Failed to create blob"))));
+  });
+}
+
+export function CompareDialog({
+  region,
+  onClose,
+  imageSrc,
+  originalWidth,
+  originalHeight,
+  displayWidth,
+  displayHeight,
+  exportSettings,
+  onApplyToRegion,
+  onApplyToExport,
+}: CompareDialogProps) {
+  const regionSettings = useMemo(
+    () => (region ? resolveExportSettings(exportSettings, region.exportOverrides) : exportSettings),
+    [region, exportSettings],
+  );
+  // Start from what the region would be exported with; the dialog is remounted for each region
+  const [format, setFormat] = useState<CompareFormat>(regionSettings.format);
+  const [quality, setQuality] = useState(() => qualityFor(regionSettings, regionSettings.format));
+  const [view, setView] = useState<"split" | "swipe">("split");
+  const [zoom, setZoom] = useState("fit");
+  const [swipe, setSwipe] = useState(50);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const swipeRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!region) return;
+
+    let cancelled = false;
+    const urls: string[] = [];
+    const timeout = setTimeout(async () => {
+      setIsEncoding(true);
+      setError(null);
+      try {
+        const settings = { ...resolveExportSettings(regionSettings, { quality }), format };
+        const { original, encoded } = await cropImageForComparison(
+          imageSrc,
+          region,
+          originalWidth,
+          originalHeight,
+          displayWidth,
+          displayHeight,
+          settings,
+        );
+        const decoded = await decodeToCanvas(encoded.blob, encoded.format, original.width, original.height);
+        const originalCtx = original.getContext("2d");
+        const decodedCtx = decoded.getContext("2d");
+        if (!originalCtx || !decodedCtx) throw new Error("Could not get canvas context");
+        const scores = measureQuality(
+          originalCtx.getImageData(0, 0, original.width, original.height),
+          decodedCtx.getImageData(0, 0, decoded.width, decoded.height),
+        );
+        urls.push(await canvasToUrl(original), await canvasToUrl(decoded));
+        // The cleanup has already run and won't see these
+        if (cancelled) {
+          urls.forEach((url) => URL.revokeObjectURL(url));
+          return;
+        }
+        setComparison({
+          originalUrl: urls[0],
+          encodedUrl: urls[1],
+          width: original.width,
+          height: original.height,
+          encoded,
+          scores,
+        });
+      } catch (error) {
+        console.error("Comparison failed:", error);
+        if (!cancelled) setError(`Could not encode or decode ${format === "auto" ? "the image" : format.toUpperCase()}`);
+      } finally {
+        if (!cancelled) setIsEncoding(false);
+      }
+    }, ENCODE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [region, regionSettings, format, quality, imageSrc, originalWidth, originalHeight, displayWidth, displayHeight]);
+
+  const handleSwipe = (e: React.PointerEvent) => {
+    if (e.type === "pointermove" && e.buttons !== 1) return;
+    const box = swipeRef.current?.getBoundingClientRect();
+    if (!box) return;
+    setSwipe(Math.min(100, Math.max(0, ((e.clientX - box.left) / box.width) * 100)));
+  };
+
+  const lossless = format === "png";
+  const imageStyle: React.CSSProperties | undefined =
+    comparison && zoom !== "fit"
+      ? { width: comparison.width * Number(zoom), maxWidth: "none", imageRendering: "pixelated" }
+      : undefined;
+  const encoded = comparison?.encoded;
+
+  return (
+    <Dialog open={!!region} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Compare {region?.label ? `"${region.label}"` : "region"}</DialogTitle>
+          <DialogDescription>Original pixels next to the encoded result, as the export would write it.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 w-44">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as CompareFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMAT_OPTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className={cn("space-y-3 w-48", lossless && "opacity-50")}>
+            <div className="flex items-center justify-between">
+              <Label>Quality{format === "auto" && " (WebP)"}</Label>
+              <span className="text-sm text-muted-foreground">{lossless ? "Lossless" : quality}</span>
+            </div>
+            <Slider
+              value={[quality]}
+              onValueChange={([value]) => setQuality(value)}
+              min={1}
+              max={100}
+              disabled={lossless}
+            />
+          </div>
+          <ToggleGroup type="single" size="sm" variant="outline" value={view} onValueChange={(value) => value && setView(value as "split" | "swipe")}>
+            <ToggleGroupItem value="split">Side by side</ToggleGroupItem>
+            <ToggleGroupItem value="swipe">Swipe</ToggleGroupItem>
+          </ToggleGroup>
+          <ToggleGroup type="single" size="sm" variant="outline" value={zoom} onValueChange={(value) => value && setZoom(value)}>
+            <ToggleGroupItem value="fit">Fit</ToggleGroupItem>
+            <ToggleGroupItem value="1">1:1</ToggleGroupItem>
+            <ToggleGroupItem value="2">2:1</ToggleGroupItem>
+          </ToggleGroup>
+          {isEncoding && <Loader2 className="w-4 h-4 mb-2 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div className="h-[55vh] bg-muted rounded-lg overflow-hidden">
+          {error ? (
+            <p className="h-full flex items-center justify-center text-sm text-destructive">{error}</p>
+          ) : !comparison ? (
+            <div className="h-full flex items-center justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : view === "split" ? (
+            <div className="grid grid-cols-2 gap-1 h-full">
+              {[
+                { label: "Original", url: comparison.originalUrl },
+                { label: "Encoded", url: comparison.encodedUrl },
+              ].map(({ label, url }) => (
+                <div key={label} className="relative overflow-auto">
+                  <span className="absolute top-2 left-2 z-10 px-2 py-0.5 bg-card/90 text-xs rounded">{label}</span>
+                  <img src={url} alt={label} className="max-w-full" style={imageStyle} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="h-full overflow-auto">
+              <div
+                ref={swipeRef}
+                className="relative inline-block cursor-ew-resize select-none touch-none"
+                onPointerDown={handleSwipe}
+                onPointerMove={handleSwipe}
+              >
+                <img src={comparison.originalUrl} alt="Original" className="max-w-full block" style={imageStyle} draggable={false} />
+                <img
+                  src={comparison.encodedUrl}
+                  alt="Encoded"
+                  className="absolute inset-0 w-full h-full"
+                  style={{ clipPath: `inset(0 0 0 ${swipe}%)`, imageRendering: imageStyle?.imageRendering }}
+                  draggable={false}
+                />
+                <div className="absolute inset-y-0 w-0.5 bg-primary pointer-events-none" style={{ left: `${swipe}%` }} />
+                <span className="absolute top-2 left-2 px-2 py-0.5 bg-card/90 text-xs rounded">Original</span>
+                <span className="absolute top-2 right-2 px-2 py-0.5 bg-card/90 text-xs rounded">Encoded</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {comparison && encoded && (
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+            <span>
+              <span className="text-muted-foreground">Size </span>
+              <span className={cn(encoded.overBudget && "text-destructive")}>{formatFileSize(encoded.blob.size)}</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground">Format </span>
+              {encoded.format.toUpperCase()}
+              {encoded.quality !== undefined && ` q${encoded.quality}`}
+            </span>
+            <span>
+              <span className="text-muted-foreground">SSIM </span>
+              {comparison.scores.ssim.toFixed(4)}
+            </span>
+            <span>
+              <span className="text-muted-foreground">PSNR </span>
+              {Number.isFinite(comparison.scores.psnr) ? `${comparison.scores.psnr.toFixed(1)} dB` : "identical"}
+            </span>
+            <span>
+              <span className="text-muted-foreground">Pixels </span>
+              {encoded.width}×{encoded.height}
+              {encoded.width !== comparison.width && ` (scaled from ${comparison.width}×${comparison.height} to fit the size budget)`}
+            </span>
+          </div>
+        )}
+
+        <DialogFooter>
+          {format === "auto" && (
+            <p className="text-xs text-muted-foreground self-center sm:mr-auto">
+              A region can't be set to Auto; pick a format to override just this region.
+            </p>
+          )}
+          <Button
+            variant="outline"
+            disabled={format === "auto"}
+            onClick={() => {
+              if (format === "auto") return;
+              onApplyToRegion({ format, quality: lossless ? undefined : quality });
+              onClose();
+            }}
+          >
+            Use for this region
+          </Button>
+          <Button
+            onClick={() => {
+              // Lossless PNG has no quality; Auto encodes opaque crops as WebP
+              const target = format === "auto" ? "webp" : format;
+              const encoders =
+                target === "png"
+                  ? exportSettings.encoders
+                  : { ...exportSettings.encoders, [target]: { ...exportSettings.encoders[target], quality } };
+              onApplyToExport({ ...exportSettings, format, encoders });
+              onClose();
+            }}
+          >
+            Use for all exports
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,73 +1,98 @@
 import { useRef, useState, useCallback, useEffect } from "react";
 import { CropRegion } from "@/types/crop";
+import { SelectionMode } from "@/hooks/useCropEditor";
 import { CropOverlay } from "./CropOverlay";
-import { Plus, ZoomIn, ZoomOut, RotateCcw, Loader2 } from "lucide-react";
+import { Plus, ZoomIn, ZoomOut, RotateCcw, Loader2, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { findElementAt } from "@/lib/magicWand";
 import { Button } from "./ui/button";
 import { Progress } from "./ui/progress";
 
 interface CropCanvasProps {
   imageSrc: string;
   regions: CropRegion[];
-  selectedId: string | null;
+  selectedIds: string[];
   scrollToRegionId?: string | null;
   isDetecting?: boolean;
   detectionProgress?: number;
   detectionStep?: string;
-  onSelectRegion: (id: string | null) => void;
+  /** Regions streamed in while detection is still running, drawn as a preview */
+  previewRegions?: CropRegion[];
+  onCancelDetection?: () => void;
+  onSelectRegion: (id: string | null, mode?: SelectionMode) => void;
+  onSelectRegions: (ids: string[], mode?: Exclude<SelectionMode, "toggle">) => void;
   onUpdateRegion: (id: string, updates: Partial<CropRegion>) => void;
+  onUpdateRegions: (updates: Record<string, Partial<CropRegion>>) => void;
+  onMoveRegions: (ids: string[], dx: number, dy: number) => void;
   onDeleteRegion: (id: string) => void;
-  onAddRegion: (region: Omit<CropRegion, "id">) => void;
+  onDeleteRegions: (ids: string[]) => void;
+  onSnapRegion: (id: string) => void;
+  /** Returns the id of the new region */
+  onAddRegion: (region: Omit<CropRegion, "id">) => string;
+  onGestureStart: () => void;
+  onGestureEnd: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
   onDimensionsReady: (original: { width: number; height: number }, display: { width: number; height: number }) => void;
 }
 
 const MIN_ZOOM = 0.2;
 const MAX_ZOOM = 4;
 const ZOOM_STEP = 0.15;
+// Mouse movement (screen px) below which a press counts as a click (magic wand) rather than a drag
+const CLICK_TOLERANCE = 3;
+// Arrow key nudge distance in image pixels (with Shift: NUDGE_STEP_LARGE)
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+function intersects(a: Rect, b: Rect) {
+  return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+}
 
 export function CropCanvas({
   imageSrc,
   regions,
-  selectedId,
+  selectedIds,
   scrollToRegionId,
   isDetecting,
   detectionProgress,
   detectionStep,
+  previewRegions,
+  onCancelDetection,
   onSelectRegion,
+  onSelectRegions,
   onUpdateRegion,
+  onUpdateRegions,
+  onMoveRegions,
   onDeleteRegion,
+  onDeleteRegions,
+  onSnapRegion,
   onAddRegion,
+  onGestureStart,
+  onGestureEnd,
+  onUndo,
+  onRedo,
   onDimensionsReady,
 }: CropCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
-  const [containerBounds, setContainerBounds] = useState<DOMRect | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
+  // "draw" creates a new region, "marquee" selects the regions it touches (Shift/⌘/Ctrl + drag)
+  const [drawMode, setDrawMode] = useState<"draw" | "marquee">("draw");
+  const [marqueeAdditive, setMarqueeAdditive] = useState(false);
   const [drawStart, setDrawStart] = useState({ x: 0, y: 0 });
-  const [drawRect, setDrawRect] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
+  const [drawRect, setDrawRect] = useState<Rect | null>(null);
+  // Alt was held when the press started: a click extends the selected region instead of creating one
+  const [extendSelection, setExtendSelection] = useState(false);
+  const [isWandBusy, setIsWandBusy] = useState(false);
+  // Start positions of the regions being dragged together
+  const dragOriginRef = useRef<CropRegion[]>([]);
   const [zoomLevel, setZoomLevel] = useState<number | null>(null);
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
 
-  useEffect(() => {
-    const updateBounds = () => {
-      if (containerRef.current) {
-        setContainerBounds(containerRef.current.getBoundingClientRect());
-      }
-    };
-
-    updateBounds();
-    window.addEventListener("resize", updateBounds);
-    return () => window.removeEventListener("resize", updateBounds);
-  }, []);
-
-  // Update bounds when zoom changes
-  useEffect(() => {
-    if (containerRef.current) {
-      setContainerBounds(containerRef.current.getBoundingClientRect());
-    }
-  }, [zoomLevel]);
-
   // Scroll to region when scrollToRegionId changes
   useEffect(() => {
     if (scrollToRegionId && scrollContainerRef.current && zoomLevel !== null) {
@@ -100,6 +125,24 @@ export function CropCanvas({
     return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, fitZoom));
   }, []);
 
+  /**
+   * Limits a group offset so every region in the group stays inside the image
+   */
+  const clampGroupOffset = useCallback(
+    (group: CropRegion[], dx: number, dy: number): [number, number] => {
+      if (group.length === 0) return [0, 0];
+      const minX = Math.min(...group.map((r) => r.x));
+      const minY = Math.min(...group.map((r) => r.y));
+      const maxX = Math.max(...group.map((r) => r.x + r.width));
+      const maxY = Math.max(...group.map((r) => r.y + r.height));
+      return [
+        Math.max(-minX, Math.min(imageDimensions.width - maxX, dx)),
+        Math.max(-minY, Math.min(imageDimensions.height - maxY, dy)),
+      ];
+    },
+    [imageDimensions],
+  );
+
   const handleImageLoad = useCallback(() => {
     if (imgRef.current && containerRef.current && scrollContainerRef.current) {
       const img = imgRef.current;
@@ -109,8 +152,7 @@ export function CropCanvas({
         { width: img.naturalWidth, height: img.naturalHeight },
         { width: img.naturalWidth, height: img.naturalHeight },
       );
-      setContainerBounds(containerRef.current.getBoundingClientRect());
-      
+
       // Calculate fit-to-view zoom (width-based)
       const scrollContainer = scrollContainerRef.current;
       const padding = 40;
@@ -183,27 +225,102 @@ export function CropCanvas({
     return () => container.removeEventListener("wheel", handleNativeWheel);
   }, []);
 
-  // Delete key support for selected region
+  // Keyboard support: Delete for the selected regions, arrows to nudge, ⌘/Ctrl+A to select all,
+  // ⌘/Ctrl+Z and ⌘/Ctrl+Shift+Z for undo/redo
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (isDetecting) return;
-      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+      // Leave text fields alone so typing and native undo keep working
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) onRedo();
+        else onUndo();
+        return;
+      }
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        onRedo();
+        return;
+      }
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'a') {
+        e.preventDefault();
+        onSelectRegions(regions.map((r) => r.id));
+        return;
+      }
+      if (e.key === 'Escape') {
+        onSelectRegion(null);
+        return;
+      }
+      if (selectedIds.length === 0) return;
+
+      if (e.key === 'Delete' || e.key === 'Backspace') {
         // Prevent backspace from navigating back in some browsers
         e.preventDefault();
-        onDeleteRegion(selectedId);
+        onDeleteRegions(selectedIds);
+        return;
+      }
+
+      const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+      const nudge: Record<string, [number, number]> = {
+        ArrowLeft: [-step, 0],
+        ArrowRight: [step, 0],
+        ArrowUp: [0, -step],
+        ArrowDown: [0, step],
+      };
+      if (nudge[e.key]) {
+        e.preventDefault();
+        const moving = regions.filter((r) => selectedIds.includes(r.id));
+        const [dx, dy] = clampGroupOffset(moving, nudge[e.key][0], nudge[e.key][1]);
+        onMoveRegions(selectedIds, dx, dy);
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [selectedId, onDeleteRegion, isDetecting]);
+  }, [
+    regions,
+    selectedIds,
+    onSelectRegion,
+    onSelectRegions,
+    onDeleteRegions,
+    onMoveRegions,
+    onUndo,
+    onRedo,
+    isDetecting,
+    clampGroupOffset,
+  ]);
+
+  const handleRegionGestureStart = useCallback(
+    (id: string) => {
+      // Dragging a selected region moves the whole selection, otherwise just that region
+      const ids = selectedIds.includes(id) ? selectedIds : [id];
+      dragOriginRef.current = regions.filter((r) => ids.includes(r.id));
+      onGestureStart();
+    },
+    [regions, selectedIds, onGestureStart],
+  );
+
+  const handleRegionDragMove = useCallback(
+    (dx: number, dy: number) => {
+      const origin = dragOriginRef.current;
+      const [clampedX, clampedY] = clampGroupOffset(origin, dx, dy);
+      onUpdateRegions(
+        Object.fromEntries(origin.map((r) => [r.id, { x: r.x + clampedX, y: r.y + clampedY }])),
+      );
+    },
+    [onUpdateRegions, clampGroupOffset],
+  );
 
   const handleMouseDown = useCallback(
     (e: React.MouseEvent) => {
       if (isDetecting) return;
       if (e.target !== containerRef.current && e.target !== imgRef.current) return;
 
-      onSelectRegion(null);
+      const isMarquee = e.shiftKey || e.metaKey || e.ctrlKey;
+      if (!isMarquee && !e.altKey) onSelectRegion(null);
 
       const rect = containerRef.current?.getBoundingClientRect();
       if (!rect) return;
@@ -214,6 +331,9 @@ export function CropCanvas({
       const y = (e.clientY - rect.top) / effectiveZoom;
 
       setIsDrawing(true);
+      setDrawMode(isMarquee ? "marquee" : "draw");
+      setMarqueeAdditive(e.shiftKey);
+      setExtendSelection(e.altKey);
       setDrawStart({ x, y });
       setDrawRect({ x, y, width: 0, height: 0 });
     },
@@ -240,8 +360,50 @@ export function CropCanvas({
     [isDrawing, drawStart, zoomLevel, imageDimensions],
   );
 
+  /**
+   * Magic wand: selects the visual element under a click, or with Alt adds it to the selected region
+   */
+  const selectElementAt = useCallback(
+    async (x: number, y: number, extend: boolean) => {
+      setIsWandBusy(true);
+      try {
+        const bounds = await findElementAt(imageSrc, x, y);
+        if (!bounds) return;
+
+        const target = extend && selectedIds.length === 1 ? regions.find((r) => r.id === selectedIds[0]) : undefined;
+        if (target) {
+          const left = Math.min(target.x, bounds.x);
+          const top = Math.min(target.y, bounds.y);
+          onUpdateRegion(target.id, {
+            x: left,
+            y: top,
+            width: Math.max(target.x + target.width, bounds.x + bounds.width) - left,
+            height: Math.max(target.y + target.height, bounds.y + bounds.height) - top,
+          });
+        } else {
+          onSelectRegion(onAddRegion(bounds));
+        }
+      } catch (error) {
+        console.error("Magic wand failed:", error);
+      } finally {
+        setIsWandBusy(false);
+      }
+    },
+    [imageSrc, regions, selectedIds, onAddRegion, onUpdateRegion, onSelectRegion],
+  );
+
   const handleMouseUp = useCallback(() => {
-    if (isDrawing && drawRect && drawRect.width > 20 && drawRect.height > 20) {
+    const isClick =
+      drawRect !== null &&
+      drawRect.width * (zoomLevel ?? 1) < CLICK_TOLERANCE &&
+      drawRect.height * (zoomLevel ?? 1) < CLICK_TOLERANCE;
+
+    if (isDrawing && drawRect && drawMode === "marquee") {
+      const hits = regions.filter((r) => intersects(r, drawRect)).map((r) => r.id);
+      onSelectRegions(hits, marqueeAdditive ? "add" : "replace");
+    } else if (isDrawing && isClick) {
+      selectElementAt(drawStart.x, drawStart.y, extendSelection);
+    } else if (isDrawing && drawRect && drawRect.width > 20 && drawRect.height > 20) {
       onAddRegion({
         x: drawRect.x,
         y: drawRect.y,
@@ -251,7 +413,19 @@ export function CropCanvas({
     }
     setIsDrawing(false);
     setDrawRect(null);
-  }, [isDrawing, drawRect, onAddRegion]);
+  }, [
+    isDrawing,
+    drawRect,
+    drawMode,
+    drawStart,
+    marqueeAdditive,
+    extendSelection,
+    zoomLevel,
+    regions,
+    onSelectRegions,
+    onAddRegion,
+    selectElementAt,
+  ]);
 
   const currentZoom = zoomLevel ?? 1;
   const handleZoomIn = () => setZoomLevel(Math.min(MAX_ZOOM, currentZoom + ZOOM_STEP));
@@ -270,13 +444,22 @@ export function CropCanvas({
               <span className="text-sm text-muted-foreground whitespace-nowrap">
                 {Math.round(detectionProgress || 0)}%
               </span>
+              {onCancelDetection && (
+                <Button variant="outline" size="sm" className="h-8 gap-1.5" onClick={onCancelDetection}>
+                  <X className="h-4 w-4" />
+                  Cancel
+                </Button>
+              )}
             </div>
           </div>
         ) : (
           <>
             <div className="flex items-center gap-2 text-sm text-muted-foreground">
               <Plus className="w-4 h-4" />
-              <span>Click and drag to add crop regions. Hold ⌘/Ctrl + scroll to zoom.</span>
+              <span>
+                Click an image to select it, or drag to draw a region. Alt + click extends the selected region. Shift +
+                drag to select several. Hold ⌘/Ctrl + scroll to zoom.
+              </span>
             </div>
 
             {/* Zoom controls */}
@@ -329,7 +512,7 @@ export function CropCanvas({
           ref={containerRef}
           className={cn(
             "relative",
-            isDetecting ? "cursor-default" : "cursor-crosshair",
+            isDetecting ? "cursor-default" : isWandBusy ? "cursor-wait" : "cursor-crosshair",
             isDrawing && "select-none",
           )}
           style={{
@@ -362,20 +545,31 @@ export function CropCanvas({
             <CropOverlay
               key={region.id}
               region={region}
-              isSelected={selectedId === region.id}
-              onSelect={() => onSelectRegion(region.id)}
+              isSelected={selectedIds.includes(region.id)}
+              onSelect={() => {
+                if (!selectedIds.includes(region.id)) onSelectRegion(region.id);
+              }}
+              onToggleSelect={() => onSelectRegion(region.id, "toggle")}
               onUpdate={(updates) => onUpdateRegion(region.id, updates)}
+              onDragMove={handleRegionDragMove}
               onDelete={() => onDeleteRegion(region.id)}
-              containerBounds={containerBounds}
+              onSnap={() => onSnapRegion(region.id)}
+              onGestureStart={() => handleRegionGestureStart(region.id)}
+              onGestureEnd={onGestureEnd}
               index={index}
               zoomLevel={currentZoom}
             />
           ))}
 
-          {/* Drawing rectangle */}
+          {/* Drawing rectangle or selection marquee */}
           {drawRect && drawRect.width > 0 && drawRect.height > 0 && (
             <div
-              className="absolute border-2 border-dashed border-accent bg-accent/10 pointer-events-none"
+              className={cn(
+                "absolute pointer-events-none",
+                drawMode === "marquee"
+                  ? "border border-dashed border-primary bg-primary/10 z-30"
+                  : "border-2 border-dashed border-accent bg-accent/10",
+              )}
               style={{
                 left: drawRect.x * currentZoom,
                 top: drawRect.y * currentZoom,
@@ -392,6 +586,21 @@ export function CropCanvas({
               <div className="absolute left-0 right-0 h-0.5 bg-gradient-to-r from-transparent via-primary to-transparent animate-scan-line" />
             </div>
           )}
+
+          {/* Regions found so far, shown above the dimmed image until detection completes */}
+          {isDetecting &&
+            previewRegions?.map((region) => (
+              <div
+                key={region.id}
+                className="absolute border-2 border-dashed border-primary bg-primary/10 z-50 pointer-events-none animate-in fade-in"
+                style={{
+                  left: region.x * currentZoom,
+                  top: region.y * currentZoom,
+                  width: region.width * currentZoom,
+                  height: region.height * currentZoom,
+                }}
+              />
+            ))}
         </div>
       </div>
     </div>
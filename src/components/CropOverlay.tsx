@@ -1,15 +1,23 @@
-import { useCallback, useRef, useState } from "react";
-import { CropRegion } from "@/types/crop";
+import { Fragment, useCallback, useRef, useState } from "react";
+import { CropRegion, ShapePoint } from "@/types/crop";
 import { cn } from "@/lib/utils";
-import { X } from "lucide-react";
+import { REGION_TYPE_META } from "@/lib/regionTypes";
+import { maxCornerRadius, regionPolygon } from "@/lib/regionShapes";
+import { ROTATION_SNAP, rotateVector } from "@/lib/regionTransform";
+import { Scan, X } from "lucide-react";
 
 interface CropOverlayProps {
   region: CropRegion;
   isSelected: boolean;
   onSelect: () => void;
+  onToggleSelect: () => void;
   onUpdate: (updates: Partial<CropRegion>) => void;
+  onDragMove: (dx: number, dy: number) => void;
   onDelete: () => void;
-  containerBounds: DOMRect | null;
+  /** Fits the region to the image content under and around it */
+  onSnap: () => void;
+  onGestureStart: () => void;
+  onGestureEnd: () => void;
   index: number;
   zoomLevel: number;
 }
@@ -20,9 +28,13 @@ export function CropOverlay({
   region,
   isSelected,
   onSelect,
+  onToggleSelect,
   onUpdate,
+  onDragMove,
   onDelete,
-  containerBounds,
+  onSnap,
+  onGestureStart,
+  onGestureEnd,
   index,
   zoomLevel,
 }: CropOverlayProps) {
@@ -33,8 +45,17 @@ export function CropOverlay({
   const handleMouseDown = useCallback(
     (e: React.MouseEvent, handle?: ResizeHandle) => {
       e.stopPropagation();
+
+      // Shift/⌘/Ctrl-click only changes the selection, it never starts a drag
+      if (!handle && (e.shiftKey || e.metaKey || e.ctrlKey)) {
+        onToggleSelect();
+        return;
+      }
+
       onSelect();
-      
+      // Group all updates of this drag/resize into a single undo step
+      onGestureStart();
+
       startPos.current = {
         x: e.clientX,
         y: e.clientY,
@@ -56,46 +77,52 @@ export function CropOverlay({
         const dy = (e.clientY - startPos.current.y) / zoomLevel;
 
         if (handle) {
+          const rotation = region.rotation ?? 0;
+          // Handles sit on the rotated box; resize in its own frame
+          const local = rotateVector(dx, dy, -rotation);
           let newX = startPos.current.rx;
           let newY = startPos.current.ry;
           let newW = startPos.current.rw;
           let newH = startPos.current.rh;
 
           if (handle.includes("w")) {
-            newX = Math.max(0, startPos.current.rx + dx);
-            newW = startPos.current.rw - dx;
+            newX = rotation ? startPos.current.rx + local.x : Math.max(0, startPos.current.rx + local.x);
+            newW = startPos.current.rw - local.x;
           }
           if (handle.includes("e")) {
-            newW = startPos.current.rw + dx;
+            newW = startPos.current.rw + local.x;
           }
           if (handle.includes("n")) {
-            newY = Math.max(0, startPos.current.ry + dy);
-            newH = startPos.current.rh - dy;
+            newY = rotation ? startPos.current.ry + local.y : Math.max(0, startPos.current.ry + local.y);
+            newH = startPos.current.rh - local.y;
           }
           if (handle.includes("s")) {
-            newH = startPos.current.rh + dy;
+            newH = startPos.current.rh + local.y;
           }
 
           if (newW >= 20 && newH >= 20) {
+            if (rotation) {
+              // The box center moved in the rotated frame; place the unrotated box around the new center
+              const shift = rotateVector(
+                newX + newW / 2 - (startPos.current.rx + startPos.current.rw / 2),
+                newY + newH / 2 - (startPos.current.ry + startPos.current.rh / 2),
+                rotation,
+              );
+              newX = startPos.current.rx + startPos.current.rw / 2 + shift.x - newW / 2;
+              newY = startPos.current.ry + startPos.current.rh / 2 + shift.y - newH / 2;
+            }
             onUpdate({ x: newX, y: newY, width: newW, height: newH });
           }
         } else {
-          // Adjust container bounds for zoom level
-          const adjustedWidth = containerBounds ? containerBounds.width / zoomLevel : Infinity;
-          const adjustedHeight = containerBounds ? containerBounds.height / zoomLevel : Infinity;
-          const maxX = adjustedWidth - region.width;
-          const maxY = adjustedHeight - region.height;
-          
-          onUpdate({
-            x: Math.max(0, Math.min(maxX, startPos.current.rx + dx)),
-            y: Math.max(0, Math.min(maxY, startPos.current.ry + dy)),
-          });
+          // The canvas moves every selected region by the same offset
+          onDragMove(dx, dy);
         }
       };
 
       const handleMouseUp = () => {
         setIsDragging(false);
         setIsResizing(null);
+        onGestureEnd();
         window.removeEventListener("mousemove", handleMouseMove);
         window.removeEventListener("mouseup", handleMouseUp);
       };
@@ -103,7 +130,7 @@ export function CropOverlay({
       window.addEventListener("mousemove", handleMouseMove);
       window.addEventListener("mouseup", handleMouseUp);
     },
-    [region, onSelect, onUpdate, containerBounds, zoomLevel]
+    [region, onSelect, onToggleSelect, onUpdate, onDragMove, onGestureStart, onGestureEnd, zoomLevel]
   );
 
   const handles: { position: ResizeHandle; className: string }[] = [
@@ -117,6 +144,92 @@ export function CropOverlay({
     { position: "w", className: "top-1/2 -left-1.5 -translate-y-1/2 cursor-w-resize" },
   ];
 
+  /**
+   * Drags a shape handle (corner radius, polygon vertex, rotation); `onMove` gets the offset in image pixels
+   */
+  const beginHandleDrag = (e: React.MouseEvent, onMove: (dx: number, dy: number, event: MouseEvent) => void) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onGestureStart();
+    const startX = e.clientX;
+    const startY = e.clientY;
+
+    const handleMouseMove = (e: MouseEvent) =>
+      onMove((e.clientX - startX) / zoomLevel, (e.clientY - startY) / zoomLevel, e);
+    const handleMouseUp = () => {
+      onGestureEnd();
+      window.removeEventListener("mousemove", handleMouseMove);
+      window.removeEventListener("mouseup", handleMouseUp);
+    };
+    window.addEventListener("mousemove", handleMouseMove);
+    window.addEventListener("mouseup", handleMouseUp);
+  };
+
+  const clampUnit = (value: number) => Math.min(1, Math.max(0, value));
+
+  const dragVertex = (e: React.MouseEvent, points: ShapePoint[], index: number) => {
+    const start = points[index];
+    beginHandleDrag(e, (dx, dy) =>
+      onUpdate({
+        points: points.map((p, i) =>
+          i === index ? { x: clampUnit(start.x + dx / region.width), y: clampUnit(start.y + dy / region.height) } : p,
+        ),
+      }),
+    );
+  };
+
+  // Dragging an edge midpoint inserts a vertex there
+  const dragMidpoint = (e: React.MouseEvent, points: ShapePoint[], index: number) => {
+    const next = points[(index + 1) % points.length];
+    const midpoint = { x: (points[index].x + next.x) / 2, y: (points[index].y + next.y) / 2 };
+    const inserted = [...points.slice(0, index + 1), midpoint, ...points.slice(index + 1)];
+    dragVertex(e, inserted, index + 1);
+    onUpdate({ points: inserted });
+  };
+
+  const removeVertex = (e: React.MouseEvent, points: ShapePoint[], index: number) => {
+    e.stopPropagation();
+    if (points.length > 3) onUpdate({ points: points.filter((_, i) => i !== index) });
+  };
+
+  const dragRotation = (e: React.MouseEvent) => {
+    // The box rotates around its center, which is also the center of its screen bounds
+    const box = (e.currentTarget.parentElement as HTMLElement).getBoundingClientRect();
+    const cx = box.left + box.width / 2;
+    const cy = box.top + box.height / 2;
+    beginHandleDrag(e, (_dx, _dy, event) => {
+      let angle = (Math.atan2(event.clientY - cy, event.clientX - cx) * 180) / Math.PI + 90;
+      if (event.shiftKey) angle = Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP;
+      angle = ((angle + 540) % 360) - 180;
+      onUpdate({ rotation: Math.abs(angle) < 0.05 ? undefined : Math.round(angle * 10) / 10 });
+    });
+  };
+
+  const dragQuadCorner = (e: React.MouseEvent, quad: ShapePoint[], index: number) => {
+    const start = quad[index];
+    beginHandleDrag(e, (dx, dy) =>
+      onUpdate({
+        quad: quad.map((p, i) =>
+          i === index ? { x: clampUnit(start.x + dx / region.width), y: clampUnit(start.y + dy / region.height) } : p,
+        ),
+      }),
+    );
+  };
+
+  const dragCornerRadius = (e: React.MouseEvent) => {
+    const start = region.cornerRadius ?? 0;
+    beginHandleDrag(e, (dx) =>
+      onUpdate({ cornerRadius: Math.round(Math.min(maxCornerRadius(region), Math.max(0, start + dx))) }),
+    );
+  };
+
+  const typeMeta = region.type ? REGION_TYPE_META[region.type] : null;
+  const shape = region.shape ?? "rectangle";
+  const masked = shape !== "rectangle";
+  const outlineColor = typeMeta?.color ?? "hsl(var(--primary))";
+  const polygon = shape === "polygon" ? regionPolygon(region) : [];
+  const quad = region.quad?.length === 4 ? region.quad : null;
+
   return (
     <div
       className={cn(
@@ -124,6 +237,8 @@ export function CropOverlay({
         isSelected
           ? "border-crop-border animate-pulse-border z-20"
           : "border-primary/70 hover:border-primary z-10",
+        // For shaped regions the box is only a guide; the outline is drawn below
+        (masked || quad) && "border border-dashed",
         (isDragging || isResizing) && "cursor-grabbing"
       )}
       style={{
@@ -131,12 +246,20 @@ export function CropOverlay({
         top: region.y * zoomLevel,
         width: region.width * zoomLevel,
         height: region.height * zoomLevel,
+        // Unselected regions are color-coded by type; the selection keeps its pulsing border
+        borderColor: typeMeta && !isSelected ? typeMeta.color : undefined,
+        transform: region.rotation ? `rotate(${region.rotation}deg)` : undefined,
       }}
       onMouseDown={(e) => handleMouseDown(e)}
     >
       {/* Label */}
-      <div className="absolute -top-6 left-0 px-2 py-0.5 bg-primary text-primary-foreground text-xs font-medium rounded-t-md">
+      <div
+        className="absolute -top-6 left-0 px-2 py-0.5 bg-primary text-primary-foreground text-xs font-medium rounded-t-md whitespace-nowrap"
+        style={{ backgroundColor: typeMeta?.color }}
+        title={region.confidence !== undefined ? `${Math.round(region.confidence * 100)}% confidence` : undefined}
+      >
         {index + 1}
+        {typeMeta && ` · ${typeMeta.label}`}
       </div>
 
       {/* Delete button */}
@@ -151,6 +274,20 @@ export function CropOverlay({
         <X className="w-3 h-3" />
       </button>
 
+      {/* Snap to content */}
+      <button
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          onSnap();
+        }}
+        className="absolute -top-2 right-5 p-1 bg-card text-foreground border border-border rounded-full opacity-0 group-hover:opacity-100 hover:opacity-100 transition-opacity hover:scale-110 z-30"
+        style={{ opacity: isSelected ? 1 : undefined }}
+        title="Snap to content"
+      >
+        <Scan className="w-3 h-3" />
+      </button>
+
       {/* Resize handles */}
       {isSelected &&
         handles.map(({ position, className }) => (
@@ -164,8 +301,121 @@ export function CropOverlay({
           />
         ))}
 
+      {/* Shape outline */}
+      {(shape === "ellipse" || shape === "rounded-rect") && (
+        <div
+          className="absolute inset-0 border-2 pointer-events-none"
+          style={{
+            borderColor: outlineColor,
+            borderRadius: shape === "ellipse" ? "50%" : (region.cornerRadius ?? 0) * zoomLevel,
+          }}
+        />
+      )}
+      {shape === "polygon" && (
+        <svg
+          className="absolute inset-0 w-full h-full overflow-visible pointer-events-none"
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+        >
+          <polygon
+            points={polygon.map((p) => `${p.x},${p.y}`).join(" ")}
+            fill={outlineColor}
+            fillOpacity={0.08}
+            stroke={outlineColor}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      )}
+
+      {/* Rotate handle */}
+      {isSelected && !quad && (
+        <>
+          <div className="absolute -top-6 left-1/2 w-px h-4 bg-crop-handle pointer-events-none" />
+          <div
+            className="absolute -top-8 left-1/2 -translate-x-1/2 w-3 h-3 bg-card border-2 border-crop-handle rounded-full shadow-md cursor-grab z-30"
+            onMouseDown={dragRotation}
+            title={`Rotate${region.rotation ? ` (${region.rotation}°)` : ""} - hold Shift to snap`}
+          />
+        </>
+      )}
+
+      {/* Perspective quad and its corner handles */}
+      {quad && (
+        <svg
+          className="absolute inset-0 w-full h-full overflow-visible pointer-events-none"
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+        >
+          <polygon
+            points={quad.map((p) => `${p.x},${p.y}`).join(" ")}
+            fill={outlineColor}
+            fillOpacity={0.08}
+            stroke={outlineColor}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      )}
+      {isSelected &&
+        quad?.map((point, i) => (
+          <div
+            key={i}
+            className="absolute w-3.5 h-3.5 -translate-x-1/2 -translate-y-1/2 bg-crop-handle border-2 border-card rounded-sm shadow-md cursor-move z-30"
+            style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+            onMouseDown={(e) => dragQuadCorner(e, quad, i)}
+          />
+        ))}
+
+      {/* Corner radius handle */}
+      {isSelected && shape === "rounded-rect" && (
+        <div
+          className="absolute -top-1.5 w-3 h-3 -translate-x-1/2 rotate-45 bg-card border-2 border-crop-handle shadow-md cursor-ew-resize z-30"
+          style={{ left: Math.min(region.cornerRadius ?? 0, maxCornerRadius(region)) * zoomLevel }}
+          onMouseDown={dragCornerRadius}
+          title="Drag to change the corner radius"
+        />
+      )}
+
+      {/* Polygon vertices (double-click to remove) and edge midpoints (drag to add a vertex) */}
+      {isSelected &&
+        shape === "polygon" &&
+        polygon.map((point, i) => {
+          const next = polygon[(i + 1) % polygon.length];
+          return (
+            <Fragment key={i}>
+              <div
+                className="absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 bg-card border-2 border-crop-handle rounded-sm shadow-md cursor-move z-30"
+                style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+                onMouseDown={(e) => dragVertex(e, polygon, i)}
+                onDoubleClick={(e) => removeVertex(e, polygon, i)}
+              />
+              <div
+                className="absolute w-2 h-2 -translate-x-1/2 -translate-y-1/2 bg-crop-handle/60 rounded-full cursor-copy z-30"
+                style={{ left: `${((point.x + next.x) / 2) * 100}%`, top: `${((point.y + next.y) / 2) * 100}%` }}
+                onMouseDown={(e) => dragMidpoint(e, polygon, i)}
+              />
+            </Fragment>
+          );
+        })}
+
       {/* Semi-transparent overlay */}
-      <div className="absolute inset-0 bg-primary/5" />
+      {!masked && !quad && (
+        <div
+          className="absolute inset-0 bg-primary/5"
+          style={typeMeta ? { backgroundColor: typeMeta.color, opacity: 0.08 } : undefined}
+        />
+      )}
+      {(shape === "ellipse" || shape === "rounded-rect") && (
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{
+            backgroundColor: outlineColor,
+            opacity: 0.08,
+            borderRadius: shape === "ellipse" ? "50%" : (region.cornerRadius ?? 0) * zoomLevel,
+          }}
+        />
+      )}
     </div>
   );
 }
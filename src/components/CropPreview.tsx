@@ -1,10 +1,18 @@
 import { useState, useEffect } from "react";
 import { CropRegion } from "@/types/crop";
-import { loadImage } from "@/lib/imageUtils";
-import { Download, Trash2 } from "lucide-react";
+import { ExportSettings } from "@/types/export";
+import { OptimizationResult, cropImage, formatFileSize, loadImage } from "@/lib/imageUtils";
+import { applyRegionMask } from "@/lib/regionShapes";
+import { renderRegionUpright, uprightSize } from "@/lib/regionTransform";
+import { applyPostProcess } from "@/lib/postProcess";
+import { hasExportOverrides, resolveExportSettings } from "@/lib/exportVariants";
+import { Check, Download, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
+// Delay before re-encoding after the region or settings change (ms)
+const ENCODE_DELAY = 400;
+
 interface CropPreviewProps {
   region: CropRegion;
   imageSrc: string;
@@ -12,8 +20,10 @@ interface CropPreviewProps {
   originalHeight: number;
   displayWidth: number;
   displayHeight: number;
+  /** Used to report the encoded size when a file-size budget applies */
+  exportSettings: ExportSettings;
   isSelected: boolean;
-  onSelect: () => void;
+  onSelect: (e: React.MouseEvent) => void;
   onDelete: () => void;
   onDownload: () => void;
   index: number;
@@ -26,6 +36,7 @@ export function CropPreview({
   originalHeight,
   displayWidth,
   displayHeight,
+  exportSettings,
   isSelected,
   onSelect,
   onDelete,
@@ -33,39 +44,24 @@ export function CropPreview({
   index,
 }: CropPreviewProps) {
   const [preview, setPreview] = useState<string | null>(null);
+  const [encoded, setEncoded] = useState<OptimizationResult | null>(null);
+  const budget = resolveExportSettings(exportSettings, region.exportOverrides).maxKilobytes;
 
   useEffect(() => {
     async function generatePreview() {
       try {
         const img = await loadImage(imageSrc);
         
-        // Regions are stored in natural image coordinates - use directly
-        const x = Math.round(region.x);
-        const y = Math.round(region.y);
-        const width = Math.round(region.width);
-        const height = Math.round(region.height);
-
+        // Regions are stored in natural image coordinates - use directly.
         // Optimize preview size - max 300px for thumbnails (2x for retina)
-        const maxPreviewSize = 300;
-        const scale = Math.min(maxPreviewSize / width, maxPreviewSize / height, 1);
-        const previewWidth = Math.round(width * scale);
-        const previewHeight = Math.round(height * scale);
-
-        const canvas = document.createElement("canvas");
-        canvas.width = previewWidth;
-        canvas.height = previewHeight;
-        
+        const canvas = renderRegionUpright(img, region, 300);
         const ctx = canvas.getContext("2d");
         if (!ctx) return;
+        applyRegionMask(ctx, region);
+        const processed = applyPostProcess({ canvas, ctx }, region.postProcess, canvas.width / uprightSize(region).width);
 
-        // Enable high-quality downscaling
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-
-        ctx.drawImage(img, x, y, width, height, 0, 0, previewWidth, previewHeight);
-        
         // Use WebP for thumbnails - much smaller than PNG
-        setPreview(canvas.toDataURL("image/webp", 0.8));
+        setPreview(processed.canvas.toDataURL("image/webp", 0.8));
       } catch (error) {
         console.error("Failed to generate preview:", error);
       }
@@ -74,6 +70,37 @@ export function CropPreview({
     generatePreview();
   }, [imageSrc, region, originalWidth, originalHeight, displayWidth, displayHeight]);
 
+  // Encode like the export does, so the size and quality that fit the budget can be shown
+  useEffect(() => {
+    setEncoded(null);
+    if (!budget) return;
+
+    let cancelled = false;
+    // Wait until the region stops changing; encoding on every drag step would be wasteful
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await cropImage(
+          imageSrc,
+          region,
+          originalWidth,
+          originalHeight,
+          displayWidth,
+          displayHeight,
+          undefined,
+          exportSettings,
+        );
+        if (!cancelled) setEncoded(result);
+      } catch (error) {
+        console.error("Failed to encode preview:", error);
+      }
+    }, ENCODE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [budget, imageSrc, region, originalWidth, originalHeight, displayWidth, displayHeight, exportSettings]);
+
   return (
     <div
       className={cn(
@@ -96,10 +123,34 @@ export function CropPreview({
         )}
       </div>
       
-      <div className="absolute top-2 left-2 px-2 py-1 bg-primary text-primary-foreground text-xs font-medium rounded">
-        {index + 1}
+      <div className="absolute top-2 left-2 flex gap-1">
+        <div className="px-2 py-1 bg-primary text-primary-foreground text-xs font-medium rounded">{index + 1}</div>
+        {hasExportOverrides(region.exportOverrides) && (
+          <div className="px-1.5 py-1 bg-card/90 text-foreground text-xs rounded" title="Has export overrides">
+            {region.exportOverrides.format?.toUpperCase() ?? "Custom"}
+          </div>
+        )}
       </div>
 
+      {encoded && (
+        <div
+          className={cn(
+            "absolute bottom-2 left-2 px-1.5 py-0.5 text-xs rounded",
+            encoded.overBudget ? "bg-destructive text-destructive-foreground" : "bg-card/90 text-foreground",
+          )}
+          title={`${encoded.width}×${encoded.height}px, budget ${budget} KB${encoded.overBudget ? " - could not fit" : ""}`}
+        >
+          {formatFileSize(encoded.blob.size)} · {encoded.format.toUpperCase()}
+          {encoded.quality !== undefined && ` q${encoded.quality}`}
+        </div>
+      )}
+
+      {isSelected && (
+        <div className="absolute top-2 right-2 p-0.5 bg-primary text-primary-foreground rounded-full">
+          <Check className="w-3 h-3" />
+        </div>
+      )}
+
       <div className="absolute inset-x-0 bottom-0 p-2 bg-gradient-to-t from-background/90 to-transparent opacity-0 group-hover:opacity-100 transition-opacity">
         <div className="flex gap-1 justify-end">
           <Button
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { CropRegion } from "@/types/crop";
+import { DuplicateGroup } from "@/lib/duplicates";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import { ChevronDown, Copy } from "lucide-react";
+
+interface DuplicateGroupsProps {
+  groups: DuplicateGroup[];
+  regions: CropRegion[];
+  /** Whether ZIP exports write one file per group */
+  merge: boolean;
+  onMergeChange: (merge: boolean) => void;
+  onSelectGroup: (regionIds: string[]) => void;
+}
+
+/**
+ * Lists regions that show the same asset, e.g. an avatar repeated down a page
+ */
+export function DuplicateGroups({ groups, regions, merge, onMergeChange, onSelectGroup }: DuplicateGroupsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const copies = groups.reduce((sum, group) => sum + group.regionIds.length - 1, 0);
+
+  const regionName = (id: string) => {
+    const index = regions.findIndex((region) => region.id === id);
+    return regions[index]?.label || `crop-${index + 1}`;
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-4 border-t border-border pt-3">
+      <CollapsibleTrigger className="flex w-full items-center justify-between gap-2 text-sm text-muted-foreground hover:text-foreground">
+        <span className="flex items-center gap-1.5">
+          <Copy className="w-3.5 h-3.5" />
+          {groups.length} duplicate group(s) · {copies} extra cop{copies === 1 ? "y" : "ies"}
+        </span>
+        <ChevronDown className={cn("w-4 h-4 transition-transform", isOpen && "rotate-180")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3">
+        <div className="mt-2 flex items-center justify-between gap-2">
+          <Label htmlFor="merge-duplicates" className="text-xs font-normal">
+            Export one file per group
+          </Label>
+          <Switch id="merge-duplicates" checked={merge} onCheckedChange={onMergeChange} />
+        </div>
+        <ul className="space-y-1.5 max-h-48 overflow-y-auto">
+          {groups.map((group) => (
+            <li key={group.canonicalId}>
+              <button
+                className="w-full text-left text-xs rounded px-1.5 py-1 hover:bg-muted"
+                onClick={() => onSelectGroup(group.regionIds)}
+                title="Select all regions of this group"
+              >
+                <span className="font-medium text-foreground">{regionName(group.canonicalId)}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  ×{group.regionIds.length} {group.exact ? "identical" : "similar"}
+                  {` — also ${group.regionIds.slice(1).map(regionName).join(", ")}`}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,113 @@
+import { EncoderSettings, ImageFormat } from "@/types/export";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+
+export function SliderRow({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  format = (value) => String(value),
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="font-normal">{label}</Label>
+        <span className="text-sm text-muted-foreground">{format(value)}</span>
+      </div>
+      <Slider value={[value]} onValueChange={([next]) => onChange(next)} min={min} max={max} step={step} />
+    </div>
+  );
+}
+
+/**
+ * Quality and effort controls for one format
+ */
+export function EncoderControls({
+  format,
+  encoders,
+  onChange,
+}: {
+  format: ImageFormat;
+  encoders: EncoderSettings;
+  onChange: (encoders: EncoderSettings) => void;
+}) {
+  switch (format) {
+    case "jpeg":
+    case "webp":
+      return (
+        <SliderRow
+          label="Quality"
+          value={encoders[format].quality}
+          min={1}
+          max={100}
+          onChange={(quality) => onChange({ ...encoders, [format]: { quality } })}
+        />
+      );
+    case "avif":
+    case "jxl":
+      return (
+        <>
+          <SliderRow
+            label="Quality"
+            value={encoders[format].quality}
+            min={0}
+            max={100}
+            onChange={(quality) => onChange({ ...encoders, [format]: { ...encoders[format], quality } })}
+          />
+          <SliderRow
+            label="Effort"
+            value={encoders[format].effort}
+            min={format === "avif" ? 0 : 1}
+            max={format === "avif" ? 10 : 9}
+            onChange={(effort) => onChange({ ...encoders, [format]: { ...encoders[format], effort } })}
+          />
+        </>
+      );
+    case "png":
+      return (
+        <>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="png-optimize" className="font-normal">
+              Optimize (oxipng)
+            </Label>
+            <Switch
+              id="png-optimize"
+              checked={encoders.png.optimize}
+              onCheckedChange={(optimize) => onChange({ ...encoders, png: { ...encoders.png, optimize } })}
+            />
+          </div>
+          {encoders.png.optimize && (
+            <>
+              <SliderRow
+                label="Effort"
+                value={encoders.png.effort}
+                min={0}
+                max={6}
+                onChange={(effort) => onChange({ ...encoders, png: { ...encoders.png, effort } })}
+              />
+              <SliderRow
+                label="Palette"
+                value={encoders.png.colors === 0 ? 257 : encoders.png.colors}
+                min={2}
+                max={257}
+                format={(value) => (value > 256 ? "All colors" : `${value} colors`)}
+                onChange={(colors) => onChange({ ...encoders, png: { ...encoders.png, colors: colors > 256 ? 0 : colors } })}
+              />
+            </>
+          )}
+        </>
+      );
+  }
+}
@@ -0,0 +1,142 @@
+import { ExportSettings, FolderRule } from "@/types/export";
+import { REGION_TYPES } from "@/types/crop";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NAME_TOKENS, NameValues, renderNameTemplate, sanitizePath, unknownNameTokens } from "@/lib/exportNaming";
+import { REGION_TYPE_META } from "@/lib/regionTypes";
+import { cn } from "@/lib/utils";
+import { Plus, X } from "lucide-react";
+
+interface ExportNamingFieldsProps {
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+}
+
+// Used for the filename preview
+const EXAMPLE_VALUES: NameValues = {
+  name: "hero",
+  project: "landing-page",
+  index: 7,
+  type: "photo",
+  label: "Hero",
+  w: 1280,
+  h: 720,
+  hash: "3fa9c0d2e17b44a8",
+};
+
+export function ExportNamingFields({ settings, onSettingsChange }: ExportNamingFieldsProps) {
+  const { naming } = settings;
+  const unknown = unknownNameTokens(naming.template);
+  const preview = sanitizePath(renderNameTemplate(naming.template, EXAMPLE_VALUES)) || EXAMPLE_VALUES.name;
+
+  const setNaming = (changes: Partial<ExportSettings["naming"]>) =>
+    onSettingsChange({ ...settings, naming: { ...naming, ...changes } });
+
+  const updateRule = (index: number, changes: Partial<FolderRule>) =>
+    setNaming({ folders: naming.folders.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)) });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="export-name-template">Filename template</Label>
+        <Input
+          id="export-name-template"
+          value={naming.template}
+          onChange={(e) => setNaming({ template: e.target.value })}
+          placeholder="{name}"
+        />
+        <div className="flex flex-wrap gap-1">
+          {NAME_TOKENS.map(({ token, description }) => (
+            <button
+              key={token}
+              type="button"
+              className="px-1.5 py-0.5 rounded bg-muted text-xs font-mono hover:bg-muted/70"
+              title={description}
+              onClick={() => setNaming({ template: naming.template + token })}
+            >
+              {token}
+            </button>
+          ))}
+        </div>
+        <p className={cn("text-xs break-words", unknown.length > 0 ? "text-destructive" : "text-muted-foreground")}>
+          {unknown.length > 0
+            ? `Unknown ${unknown.length === 1 ? "token" : "tokens"} ${unknown.join(", ")} - written as is.`
+            : `A photo "hero" is saved as ${preview}.webp; size variants and the extension are added automatically.`}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Folders</Label>
+        {naming.folders.length === 0 && (
+          <p className="text-xs text-muted-foreground">All files go to the top level of the ZIP.</p>
+        )}
+        {naming.folders.map((rule, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Select
+              value={rule.match}
+              onValueChange={(match) => updateRule(index, { match: match as FolderRule["match"], value: "" })}
+            >
+              <SelectTrigger className="w-24 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="type">Type</SelectItem>
+                <SelectItem value="tag">Tag</SelectItem>
+              </SelectContent>
+            </Select>
+            {rule.match === "type" ? (
+              <Select value={rule.value} onValueChange={(value) => updateRule(index, { value })}>
+                <SelectTrigger className="w-32 shrink-0">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {REGION_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {REGION_TYPE_META[type].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                className="w-32 shrink-0"
+                value={rule.value}
+                onChange={(e) => updateRule(index, { value: e.target.value })}
+                placeholder="Tag"
+              />
+            )}
+            <span className="text-sm text-muted-foreground">→</span>
+            <Input
+              value={rule.folder}
+              onChange={(e) => updateRule(index, { folder: e.target.value })}
+              placeholder="Folder, e.g. icons/{type}"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-9 w-9 shrink-0"
+              onClick={() => setNaming({ folders: naming.folders.filter((_, i) => i !== index) })}
+              title="Remove rule"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-1.5"
+          onClick={() => setNaming({ folders: [...naming.folders, { match: "type", value: "", folder: "" }] })}
+        >
+          <Plus className="w-4 h-4" />
+          Add rule
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          The first matching rule wins. Files that end up with the same name get -2, -3, ... in export order.
+        </p>
+      </div>
+    </div>
+  );
+}
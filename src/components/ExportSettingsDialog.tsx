@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { ExportPreset, ExportSettings, ImageFormat, Resampling } from "@/types/export";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EncoderControls, SliderRow } from "@/components/EncoderControls";
+import { ExportVariantsFields } from "@/components/ExportVariantsFields";
+import { ExportNamingFields } from "@/components/ExportNamingFields";
+import { DEFAULT_EXPORT_SETTINGS, FORMAT_OPTIONS, RESAMPLING_OPTIONS } from "@/lib/exportVariants";
+import { deleteExportPreset, listExportPresets, saveExportPreset } from "@/lib/exportPresets";
+import { Save, Trash2 } from "lucide-react";
+
+interface ExportSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+}
+
+/**
+ * Parses a size limit input (pixels or KB); empty or invalid input means "no limit" (0)
+ */
+function parseLimit(value: string): number {
+  const pixels = Math.round(Number(value));
+  return Number.isFinite(pixels) && pixels > 0 ? pixels : 0;
+}
+
+export function ExportSettingsDialog({ open, onOpenChange, settings, onSettingsChange }: ExportSettingsDialogProps) {
+  const [presets, setPresets] = useState<ExportPreset[]>(listExportPresets);
+  const [presetName, setPresetName] = useState("");
+  // Which preset the settings came from; cleared once they are edited
+  const [activePreset, setActivePreset] = useState<string | null>(null);
+
+  const update = (changes: Partial<ExportSettings>) => {
+    setActivePreset(null);
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find((p) => p.name === name);
+    if (!preset) return;
+    onSettingsChange(preset.settings);
+    setActivePreset(name);
+    setPresetName(name);
+  };
+
+  const savePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(saveExportPreset(name, settings));
+    setActivePreset(name);
+  };
+
+  const removePreset = () => {
+    if (!activePreset) return;
+    setPresets(deleteExportPreset(activePreset));
+    setActivePreset(null);
+    setPresetName("");
+  };
+
+  // Auto picks between PNG and WebP, so both are tunable then
+  const formats: ImageFormat[] = settings.format === "auto" ? ["png", "webp"] : [settings.format];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Export settings</DialogTitle>
+          <DialogDescription>
+            Used for downloads and ZIP exports of this project. Single regions can override format, quality and size.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label>Preset</Label>
+            <Select value={activePreset ?? ""} onValueChange={applyPreset} disabled={presets.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder={presets.length === 0 ? "No saved presets" : "Apply a preset"} />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="ghost" size="icon" onClick={removePreset} disabled={!activePreset} title="Delete preset">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+        <form onSubmit={savePreset} className="flex gap-2">
+          <Input value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="Preset name" />
+          <Button type="submit" variant="outline" className="gap-2 shrink-0" disabled={!presetName.trim()}>
+            <Save className="w-4 h-4" />
+            Save preset
+          </Button>
+        </form>
+
+        <Tabs defaultValue="format">
+          <TabsList className="grid grid-cols-5 w-full">
+            <TabsTrigger value="format">Format</TabsTrigger>
+            <TabsTrigger value="size">Size</TabsTrigger>
+            <TabsTrigger value="variants">Variants</TabsTrigger>
+            <TabsTrigger value="naming">Naming</TabsTrigger>
+            <TabsTrigger value="zip">ZIP</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="format" className="space-y-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select
+                value={settings.format}
+                onValueChange={(value) => update({ format: value as ExportSettings["format"] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMAT_OPTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formats.map((format) => (
+              <div key={format} className="space-y-3">
+                {formats.length > 1 && <Label>{FORMAT_OPTIONS.find((option) => option.value === format)?.label}</Label>}
+                <EncoderControls format={format} encoders={settings.encoders} onChange={(encoders) => update({ encoders })} />
+              </div>
+            ))}
+            {(settings.format === "avif" || settings.format === "jxl") && (
+              <p className="text-xs text-muted-foreground">
+                Encoded with WebAssembly in the background; higher effort is slower but gives smaller files.
+              </p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="size" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-max-dimension">Max dimension (px)</Label>
+              <Input
+                id="export-max-dimension"
+                type="number"
+                min={0}
+                value={settings.maxDimension || ""}
+                onChange={(e) => update({ maxDimension: parseLimit(e.target.value) })}
+                placeholder="Native size"
+              />
+              <p className="text-xs text-muted-foreground">
+                Crops with a longer side are scaled down; size variants are made from the result.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-max-kilobytes">Max file size (KB)</Label>
+              <Input
+                id="export-max-kilobytes"
+                type="number"
+                min={0}
+                value={settings.maxKilobytes || ""}
+                onChange={(e) => update({ maxKilobytes: parseLimit(e.target.value) })}
+                placeholder="No limit"
+              />
+              <p className="text-xs text-muted-foreground">
+                Applies to every file. Quality is lowered first, then the crop is scaled down until it fits.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Resampling</Label>
+              <Select value={settings.resampling} onValueChange={(value) => update({ resampling: value as Resampling })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESAMPLING_OPTIONS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="variants">
+            <ExportVariantsFields
+              settings={settings}
+              onSettingsChange={(next) => {
+                setActivePreset(null);
+                onSettingsChange(next);
+              }}
+            />
+          </TabsContent>
+
+          <TabsContent value="naming">
+            <ExportNamingFields settings={settings} onSettingsChange={update} />
+          </TabsContent>
+
+          <TabsContent value="zip" className="space-y-4">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="export-template" className="font-normal">
+                Include the source image in ZIPs (template.*)
+              </Label>
+              <Switch
+                id="export-template"
+                checked={settings.template.include}
+                onCheckedChange={(include) => update({ template: { ...settings.template, include } })}
+              />
+            </div>
+            {settings.template.include && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="export-template-height">Max height (px)</Label>
+                  <Input
+                    id="export-template-height"
+                    type="number"
+                    min={0}
+                    value={settings.template.maxHeight || ""}
+                    onChange={(e) => update({ template: { ...settings.template, maxHeight: parseLimit(e.target.value) } })}
+                    placeholder="No limit"
+                  />
+                </div>
+                <SliderRow
+                  label="Quality"
+                  value={settings.template.quality}
+                  min={1}
+                  max={100}
+                  onChange={(quality) => update({ template: { ...settings.template, quality } })}
+                />
+              </>
+            )}
+            <Separator />
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="export-dedupe" className="font-normal">
+                Export one file per group of duplicate regions
+              </Label>
+              <Switch
+                id="export-dedupe"
+                checked={settings.dedupe.enabled}
+                onCheckedChange={(enabled) => update({ dedupe: { ...settings.dedupe, enabled } })}
+              />
+            </div>
+            {settings.dedupe.enabled && (
+              <>
+                <SliderRow
+                  label="Similarity tolerance"
+                  value={settings.dedupe.threshold}
+                  min={0}
+                  max={16}
+                  format={(bits) => (bits === 0 ? "Exact" : `${bits} bits`)}
+                  onChange={(threshold) => update({ dedupe: { ...settings.dedupe, threshold } })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  0 only merges identical crops; higher values also merge recompressed or slightly shifted copies. The
+                  largest copy is exported and the manifest lists where the others were.
+                </p>
+              </>
+            )}
+            <Separator />
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="export-vectorize" className="font-normal">
+                Trace icons and logos to SVG
+              </Label>
+              <Switch
+                id="export-vectorize"
+                checked={settings.vectorize.enabled}
+                onCheckedChange={(enabled) => update({ vectorize: { ...settings.vectorize, enabled } })}
+              />
+            </div>
+            {settings.vectorize.enabled && (
+              <>
+                <SliderRow
+                  label="Fidelity"
+                  value={settings.vectorize.fidelity}
+                  min={0}
+                  max={100}
+                  onChange={(fidelity) => update({ vectorize: { ...settings.vectorize, fidelity } })}
+                />
+                <div className="space-y-2">
+                  <Label>SVG files</Label>
+                  <Select
+                    value={settings.vectorize.output}
+                    onValueChange={(output) =>
+                      update({ vectorize: { ...settings.vectorize, output: output as "beside" | "instead" } })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="beside">Next to the raster files</SelectItem>
+                      <SelectItem value="instead">Instead of the raster files</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Applies to regions typed as icon or logo. Lower fidelity means fewer colors and smoother, smaller
+                  paths; preview a region with the vectorize button in its actions.
+                </p>
+              </>
+            )}
+            <Separator />
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="export-manifest" className="font-normal">
+                Include manifest.json in ZIPs
+              </Label>
+              <Switch
+                id="export-manifest"
+                checked={settings.manifest.include}
+                onCheckedChange={(include) => update({ manifest: { ...settings.manifest, include } })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Lists every file with its label, position in the source image, pixel size, format, byte size, size
+              variants and a SHA-256 hash.
+            </p>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="export-manifest-ts" className="font-normal">
+                Also generate a TypeScript module (assets.ts)
+              </Label>
+              <Switch
+                id="export-manifest-ts"
+                checked={settings.manifest.typescript}
+                disabled={!settings.manifest.include}
+                onCheckedChange={(typescript) => update({ manifest: { ...settings.manifest, typescript } })}
+              />
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setActivePreset(null);
+              onSettingsChange(DEFAULT_EXPORT_SETTINGS);
+            }}
+          >
+            Reset to defaults
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { ExportSettings, VariantMode } from "@/types/export";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { VARIANT_TOKENS, exportVariants, isValidNamePattern, parseNumberList } from "@/lib/exportVariants";
+import { cn } from "@/lib/utils";
+
+interface ExportVariantsFieldsProps {
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+}
+
+// Used for the filename preview
+const EXAMPLE_NAME = "hero";
+const EXAMPLE_WIDTH = 1280;
+
+export function ExportVariantsFields({ settings, onSettingsChange }: ExportVariantsFieldsProps) {
+  const mode = settings.variantMode;
+  const values = mode === "width" ? settings.widths : settings.densities;
+  const pattern = mode === "width" ? settings.widthPattern : settings.densityPattern;
+
+  // The list is edited as text and applied on blur, so "1, " can be typed without being reformatted
+  const [draft, setDraft] = useState(values.join(", "));
+  useEffect(() => setDraft(values.join(", ")), [values]);
+
+  const applyDraft = () => {
+    const parsed = parseNumberList(draft);
+    if (parsed.length === 0) {
+      setDraft(values.join(", "));
+      return;
+    }
+    onSettingsChange(mode === "width" ? { ...settings, widths: parsed } : { ...settings, densities: parsed });
+  };
+
+  const setPattern = (value: string) =>
+    onSettingsChange(mode === "width" ? { ...settings, widthPattern: value } : { ...settings, densityPattern: value });
+
+  const patternValid = mode === "native" || isValidNamePattern(pattern, mode);
+  const preview = exportVariants(settings, EXAMPLE_NAME, EXAMPLE_WIDTH).map((variant) => `${variant.name}.webp`);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Export sizes</Label>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          className="justify-start"
+          value={mode}
+          onValueChange={(value) => value && onSettingsChange({ ...settings, variantMode: value as VariantMode })}
+        >
+          <ToggleGroupItem value="native" title="One file per region at its native resolution">
+            Native
+          </ToggleGroupItem>
+          <ToggleGroupItem value="density" title="Pixel density variants; the crop itself is the highest density">
+            Densities
+          </ToggleGroupItem>
+          <ToggleGroupItem value="width" title="Width breakpoints for srcset; crops are never upscaled">
+            Widths
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {mode !== "native" && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="export-variant-values">{mode === "width" ? "Widths (px)" : "Densities"}</Label>
+            <Input
+              id="export-variant-values"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={applyDraft}
+              onKeyDown={(e) => e.key === "Enter" && applyDraft()}
+              placeholder={mode === "width" ? "320, 640, 1280" : "1, 2, 3"}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-variant-pattern">Filename pattern</Label>
+            <Input id="export-variant-pattern" value={pattern} onChange={(e) => setPattern(e.target.value)} />
+            <p className={cn("text-xs", patternValid ? "text-muted-foreground" : "text-destructive")}>
+              {patternValid
+                ? `Uses {name} and ${VARIANT_TOKENS[mode]}; the extension is added automatically.`
+                : `Must contain {name} and ${VARIANT_TOKENS[mode]} - the default pattern is used until it does.`}
+            </p>
+          </div>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground break-words">
+        {mode === "width" ? `A ${EXAMPLE_WIDTH}px wide crop "${EXAMPLE_NAME}" is saved as ` : `A crop "${EXAMPLE_NAME}" is saved as `}
+        {preview.join(", ")}
+      </p>
+    </div>
+  );
+}
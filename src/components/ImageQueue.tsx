@@ -0,0 +1,133 @@
+import { useRef } from "react";
+import { SourceImage } from "@/types/batch";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { AlertCircle, Check, Clock, ImagePlus, Loader2, Sparkles, X } from "lucide-react";
+
+interface ImageQueueProps {
+  images: SourceImage[];
+  activeId: string | null;
+  isProcessing: boolean;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  onAddFiles: (files: File[]) => void;
+  onDetectAll: () => void;
+  onCancelAll: () => void;
+}
+
+function StatusBadge({ image }: { image: SourceImage }) {
+  switch (image.status) {
+    case "queued":
+      return <Clock className="w-3.5 h-3.5 text-muted-foreground" />;
+    case "detecting":
+      return <Loader2 className="w-3.5 h-3.5 animate-spin text-primary" />;
+    case "done":
+      return (
+        <span className="flex items-center gap-0.5 text-xs font-medium text-success">
+          <Check className="w-3.5 h-3.5" />
+          {image.regions.length}
+        </span>
+      );
+    case "error":
+      return <AlertCircle className="w-3.5 h-3.5 text-destructive" />;
+    default:
+      return null;
+  }
+}
+
+export function ImageQueue({
+  images,
+  activeId,
+  isProcessing,
+  onSelect,
+  onRemove,
+  onAddFiles,
+  onDetectAll,
+  onCancelAll,
+}: ImageQueueProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const doneCount = images.filter((image) => image.status === "done").length;
+  const pendingCount = images.filter((image) => image.status === "pending" || image.status === "error").length;
+
+  return (
+    <div className="glass rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="font-semibold text-foreground">
+          Images ({images.length})
+          <span className="ml-2 text-sm font-normal text-muted-foreground">
+            {doneCount}/{images.length} scanned
+          </span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" className="gap-1.5" onClick={() => inputRef.current?.click()}>
+            <ImagePlus className="w-4 h-4" />
+            Add images
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              onAddFiles(Array.from(e.target.files ?? []));
+              e.target.value = "";
+            }}
+          />
+          {isProcessing ? (
+            <Button size="sm" variant="outline" className="gap-1.5" onClick={onCancelAll}>
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Cancel scan
+            </Button>
+          ) : (
+            images.length > 1 && (
+              <Button size="sm" className="gap-1.5" onClick={onDetectAll} disabled={pendingCount === 0}>
+                <Sparkles className="w-4 h-4" />
+                Scan all ({pendingCount})
+              </Button>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {images.map((image, index) => (
+          <div
+            key={image.id}
+            className={cn(
+              "group relative shrink-0 w-28 rounded-lg overflow-hidden border-2 cursor-pointer transition-all",
+              image.id === activeId ? "border-primary ring-2 ring-primary/20" : "border-transparent hover:border-primary/50",
+            )}
+            onClick={() => onSelect(image.id)}
+            title={image.error ?? image.file.name}
+          >
+            <div className="h-20 bg-muted overflow-hidden">
+              <img src={image.src} alt={image.file.name} className="w-full h-full object-cover object-top" />
+            </div>
+            <div className="flex items-center justify-between gap-1 px-1.5 py-1 bg-card/80">
+              <span className="text-xs text-foreground truncate">
+                {index + 1}. {image.file.name}
+              </span>
+              <StatusBadge image={image} />
+            </div>
+            {image.status === "detecting" && (
+              <Progress value={image.progress} className="absolute inset-x-0 bottom-0 h-1 rounded-none" />
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(image.id);
+              }}
+              disabled={image.status === "detecting"}
+              className="absolute top-1 right-1 p-0.5 bg-destructive text-destructive-foreground rounded-full opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+              title="Remove image"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
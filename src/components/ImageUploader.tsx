@@ -1,37 +1,74 @@
 import { useCallback, useState, useEffect } from "react";
-import { Upload, Image as ImageIcon } from "lucide-react";
+import { Upload, Image as ImageIcon, FolderOpen } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 
 interface ImageUploaderProps {
-  onImageSelect: (file: File, preview: string) => void;
+  onFilesSelect: (files: File[]) => void;
   disabled?: boolean;
 }
 
-export function ImageUploader({ onImageSelect, disabled }: ImageUploaderProps) {
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+function readDirectoryEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+/**
+ * Collects all files from a dropped file or folder, descending into sub-folders
+ */
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) return [await readEntryFile(entry as FileSystemFileEntry)];
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns results in batches until it yields an empty list
+  for (let batch = await readDirectoryEntries(reader); batch.length > 0; batch = await readDirectoryEntries(reader)) {
+    for (const child of batch) files.push(...(await collectEntryFiles(child)));
+  }
+  return files;
+}
+
+/**
+ * Keeps image files only, in natural filename order (screen-2 before screen-10)
+ */
+function sortImageFiles(files: File[]): File[] {
+  return files
+    .filter((file) => file.type.startsWith("image/"))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+export function ImageUploader({ onFilesSelect, disabled }: ImageUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isPasting, setIsPasting] = useState(false);
 
-  const handleFile = useCallback(
-    (file: File) => {
-      if (!file.type.startsWith("image/")) return;
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        onImageSelect(file, e.target?.result as string);
-      };
-      reader.readAsDataURL(file);
+  const handleFiles = useCallback(
+    (files: File[]) => {
+      const images = sortImageFiles(files);
+      if (images.length > 0) onFilesSelect(images);
     },
-    [onImageSelect]
+    [onFilesSelect]
   );
 
   const handleDrop = useCallback(
-    (e: React.DragEvent) => {
+    async (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragging(false);
-      const file = e.dataTransfer.files[0];
-      if (file) handleFile(file);
+      // Entries must be read synchronously, the DataTransfer is emptied once the event returns
+      const entries = Array.from(e.dataTransfer.items)
+        .map((item) => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+      if (entries.length === 0) {
+        handleFiles(Array.from(e.dataTransfer.files));
+        return;
+      }
+      const nested = await Promise.all(entries.map(collectEntryFiles));
+      handleFiles(nested.flat());
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -46,10 +83,11 @@ export function ImageUploader({ onImageSelect, disabled }: ImageUploaderProps) {
 
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (file) handleFile(file);
+      handleFiles(Array.from(e.target.files ?? []));
+      // Allow picking the same files again
+      e.target.value = "";
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const handlePaste = useCallback(
@@ -69,14 +107,14 @@ export function ImageUploader({ onImageSelect, disabled }: ImageUploaderProps) {
             });
             setIsPasting(true);
             toast.success("Pasted from clipboard!");
-            handleFile(namedFile);
+            handleFiles([namedFile]);
             setTimeout(() => setIsPasting(false), 600);
           }
           break;
         }
       }
     },
-    [disabled, handleFile]
+    [disabled, handleFiles]
   );
 
   useEffect(() => {
@@ -101,6 +139,7 @@ export function ImageUploader({ onImageSelect, disabled }: ImageUploaderProps) {
       <input
         type="file"
         accept="image/*"
+        multiple
         onChange={handleChange}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         disabled={disabled}
@@ -122,16 +161,30 @@ export function ImageUploader({ onImageSelect, disabled }: ImageUploaderProps) {
         </div>
         <div className="space-y-2">
           <p className="text-lg font-medium text-foreground">
-            {isDragging ? "Drop your image here" : "Upload your template image"}
+            {isDragging ? "Drop your images here" : "Upload your template images"}
           </p>
           <p className="text-sm text-muted-foreground">
-            Drag & drop, click to browse, or paste (⌘V)
+            Drag & drop files or folders, click to browse, or paste (⌘V)
           </p>
           <p className="text-xs text-muted-foreground/70">
-            Supports PNG, JPG, WebP
+            Supports PNG, JPG, WebP · several images are processed as a batch
           </p>
         </div>
       </div>
+
+      {/* Folder picker sits above the full-size file input */}
+      <label className="absolute bottom-4 right-4 z-10 flex items-center gap-1.5 px-3 py-1.5 text-xs text-muted-foreground rounded-lg border border-border/50 bg-card/80 hover:text-foreground cursor-pointer">
+        <FolderOpen className="w-3.5 h-3.5" />
+        Choose folder
+        <input
+          type="file"
+          multiple
+          onChange={handleChange}
+          className="hidden"
+          disabled={disabled}
+          {...{ webkitdirectory: "" }}
+        />
+      </label>
     </div>
   );
 }
@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { ImageFormat, RegionExportOverrides, Resampling } from "@/types/export";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { SliderRow } from "@/components/EncoderControls";
+import { FORMAT_OPTIONS, RESAMPLING_OPTIONS } from "@/lib/exportVariants";
+
+interface RegionExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedCount: number;
+  /** Overrides of the first selected region, to start from */
+  overrides: RegionExportOverrides | undefined;
+  onApply: (overrides: RegionExportOverrides | undefined) => void;
+}
+
+// Select value for "follow the export settings"
+const INHERIT = "inherit";
+
+/**
+ * Parses a limit input; empty input follows the export settings, 0 means no limit
+ */
+function parseOverride(value: string): number | undefined {
+  const number = Math.round(Number(value));
+  return value && Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+export function RegionExportDialog({ open, onOpenChange, selectedCount, overrides, onApply }: RegionExportDialogProps) {
+  const [draft, setDraft] = useState<RegionExportOverrides>({});
+
+  useEffect(() => {
+    if (open) setDraft(overrides ?? {});
+  }, [open, overrides]);
+
+  const handleApply = () => {
+    const cleaned = Object.fromEntries(Object.entries(draft).filter(([, value]) => value !== undefined));
+    onApply(Object.keys(cleaned).length > 0 ? cleaned : undefined);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export overrides</DialogTitle>
+          <DialogDescription>
+            {selectedCount === 1 ? "This region uses" : `These ${selectedCount} regions use`} the export settings
+            except for what is set here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={draft.format ?? INHERIT}
+              onValueChange={(value) =>
+                setDraft({ ...draft, format: value === INHERIT ? undefined : (value as ImageFormat) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INHERIT}>Export setting</SelectItem>
+                {FORMAT_OPTIONS.filter((option) => option.value !== "auto").map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="override-quality" className="font-normal">
+                Custom quality
+              </Label>
+              <Switch
+                id="override-quality"
+                checked={draft.quality !== undefined}
+                onCheckedChange={(checked) => setDraft({ ...draft, quality: checked ? 85 : undefined })}
+              />
+            </div>
+            {draft.quality !== undefined && (
+              <SliderRow
+                label="Quality"
+                value={draft.quality}
+                min={1}
+                max={100}
+                onChange={(quality) => setDraft({ ...draft, quality })}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="override-max-dimension">Max dimension (px)</Label>
+            <Input
+              id="override-max-dimension"
+              type="number"
+              min={0}
+              value={draft.maxDimension ?? ""}
+              onChange={(e) => setDraft({ ...draft, maxDimension: parseOverride(e.target.value) })}
+              placeholder="Export setting"
+            />
+            <p className="text-xs text-muted-foreground">0 removes the limit for these regions.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="override-max-kilobytes">Max file size (KB)</Label>
+            <Input
+              id="override-max-kilobytes"
+              type="number"
+              min={0}
+              value={draft.maxKilobytes ?? ""}
+              onChange={(e) => setDraft({ ...draft, maxKilobytes: parseOverride(e.target.value) })}
+              placeholder="Export setting"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Resampling</Label>
+            <Select
+              value={draft.resampling ?? INHERIT}
+              onValueChange={(value) =>
+                setDraft({ ...draft, resampling: value === INHERIT ? undefined : (value as Resampling) })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={INHERIT}>Export setting</SelectItem>
+                {RESAMPLING_OPTIONS.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setDraft({})}>
+            Clear overrides
+          </Button>
+          <Button onClick={handleApply}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
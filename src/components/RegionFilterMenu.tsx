@@ -0,0 +1,85 @@
+import { CropRegion, RegionType } from "@/types/crop";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Slider } from "@/components/ui/slider";
+import { REGION_TYPE_META, RegionFilter, DEFAULT_REGION_FILTER, countRegionTypes, isFilterActive } from "@/lib/regionTypes";
+import { cn } from "@/lib/utils";
+import { Filter } from "lucide-react";
+
+interface RegionFilterMenuProps {
+  regions: CropRegion[];
+  filter: RegionFilter;
+  onFilterChange: (filter: RegionFilter) => void;
+  disabled?: boolean;
+}
+
+export function RegionFilterMenu({ regions, filter, onFilterChange, disabled }: RegionFilterMenuProps) {
+  const typeCounts = countRegionTypes(regions);
+  const active = isFilterActive(filter);
+
+  const setTypeVisible = (type: RegionType, visible: boolean) =>
+    onFilterChange({
+      ...filter,
+      hiddenTypes: visible ? filter.hiddenTypes.filter((t) => t !== type) : [...filter.hiddenTypes, type],
+    });
+
+  const keepOnly = (type: RegionType) =>
+    onFilterChange({ ...filter, hiddenTypes: typeCounts.map((entry) => entry.type).filter((t) => t !== type) });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn("gap-2", active && "border-primary text-primary")} disabled={disabled}>
+          <Filter className="w-4 h-4" />
+          Filter
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Minimum confidence</Label>
+            <span className="text-sm text-muted-foreground">{Math.round(filter.minConfidence * 100)}%</span>
+          </div>
+          <Slider
+            value={[filter.minConfidence * 100]}
+            onValueChange={([value]) => onFilterChange({ ...filter, minConfidence: value / 100 })}
+            max={100}
+            step={5}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Types</Label>
+          {typeCounts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Scan the image to classify regions.</p>
+          ) : (
+            typeCounts.map(({ type, count }) => (
+              <div key={type} className="flex items-center gap-2">
+                <Checkbox
+                  id={`region-type-${type}`}
+                  checked={!filter.hiddenTypes.includes(type)}
+                  onCheckedChange={(checked) => setTypeVisible(type, checked === true)}
+                />
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: REGION_TYPE_META[type].color }} />
+                <Label htmlFor={`region-type-${type}`} className="flex-1 font-normal">
+                  {REGION_TYPE_META[type].label} ({count})
+                </Label>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => keepOnly(type)}>
+                  Keep only
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {active && (
+          <Button variant="secondary" size="sm" className="w-full" onClick={() => onFilterChange(DEFAULT_REGION_FILTER)}>
+            Show all regions
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,229 @@
+import { useEffect, useState } from "react";
+import { RegionPostProcess } from "@/types/crop";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { SliderRow } from "@/components/EncoderControls";
+import { ASPECT_RATIOS, hasPostProcess } from "@/lib/postProcess";
+
+interface RegionPostProcessDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedCount: number;
+  /** Steps of the first selected region, to start from */
+  steps: RegionPostProcess | undefined;
+  onApply: (steps: RegionPostProcess | undefined) => void;
+}
+
+const DEFAULT_KNOCKOUT: NonNullable<RegionPostProcess["knockout"]> = {
+  color: "auto",
+  tolerance: 24,
+  feather: 16,
+  contiguous: true,
+};
+const DEFAULT_TRIM_TOLERANCE = 16;
+// Select value for "no aspect ratio"
+const NONE = "none";
+
+export function RegionPostProcessDialog({ open, onOpenChange, selectedCount, steps, onApply }: RegionPostProcessDialogProps) {
+  const [draft, setDraft] = useState<RegionPostProcess>({});
+
+  useEffect(() => {
+    if (open) setDraft(steps ?? {});
+  }, [open, steps]);
+
+  const padded = !!draft.padding || !!draft.aspectRatio;
+
+  const handleApply = () => {
+    // The pad color means nothing without padding
+    const next = { ...draft, padColor: padded ? draft.padColor : undefined };
+    const cleaned = Object.fromEntries(Object.entries(next).filter(([, value]) => value !== undefined));
+    onApply(hasPostProcess(cleaned) ? cleaned : undefined);
+    onOpenChange(false);
+  };
+
+  const { knockout, trim } = draft;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Post-processing</DialogTitle>
+          <DialogDescription>
+            Applied to {selectedCount === 1 ? "this region" : `these ${selectedCount} regions`} before encoding, in
+            order from top to bottom. Thumbnails show the result.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="post-knockout" className="font-normal">
+                Remove background color
+              </Label>
+              <Switch
+                id="post-knockout"
+                checked={!!knockout}
+                onCheckedChange={(checked) => setDraft({ ...draft, knockout: checked ? DEFAULT_KNOCKOUT : undefined })}
+              />
+            </div>
+            {knockout && (
+              <>
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="post-knockout-auto" className="text-sm font-normal text-muted-foreground">
+                    Use the border color
+                  </Label>
+                  <div className="flex items-center gap-2">
+                    {knockout.color !== "auto" && (
+                      <Input
+                        type="color"
+                        className="h-8 w-12 p-1"
+                        value={knockout.color}
+                        onChange={(e) => setDraft({ ...draft, knockout: { ...knockout, color: e.target.value } })}
+                      />
+                    )}
+                    <Switch
+                      id="post-knockout-auto"
+                      checked={knockout.color === "auto"}
+                      onCheckedChange={(checked) =>
+                        setDraft({ ...draft, knockout: { ...knockout, color: checked ? "auto" : "#ffffff" } })
+                      }
+                    />
+                  </div>
+                </div>
+                <SliderRow
+                  label="Tolerance"
+                  value={knockout.tolerance}
+                  min={0}
+                  max={128}
+                  onChange={(tolerance) => setDraft({ ...draft, knockout: { ...knockout, tolerance } })}
+                />
+                <SliderRow
+                  label="Edge feathering"
+                  value={knockout.feather}
+                  min={0}
+                  max={64}
+                  onChange={(feather) => setDraft({ ...draft, knockout: { ...knockout, feather } })}
+                />
+                <div className="flex items-center justify-between gap-2">
+                  <Label htmlFor="post-knockout-contiguous" className="text-sm font-normal text-muted-foreground">
+                    Only where connected to the border
+                  </Label>
+                  <Switch
+                    id="post-knockout-contiguous"
+                    checked={knockout.contiguous}
+                    onCheckedChange={(contiguous) => setDraft({ ...draft, knockout: { ...knockout, contiguous } })}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="post-trim" className="font-normal">
+                Trim uniform borders
+              </Label>
+              <Switch
+                id="post-trim"
+                checked={!!trim}
+                onCheckedChange={(checked) =>
+                  setDraft({ ...draft, trim: checked ? { tolerance: DEFAULT_TRIM_TOLERANCE } : undefined })
+                }
+              />
+            </div>
+            {trim && (
+              <SliderRow
+                label="Tolerance"
+                value={trim.tolerance}
+                min={0}
+                max={64}
+                onChange={(tolerance) => setDraft({ ...draft, trim: { tolerance } })}
+              />
+            )}
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="post-padding">Padding (px)</Label>
+              <Input
+                id="post-padding"
+                type="number"
+                min={0}
+                value={draft.padding ?? ""}
+                onChange={(e) => {
+                  const padding = Math.round(Number(e.target.value));
+                  setDraft({ ...draft, padding: padding > 0 ? padding : undefined });
+                }}
+                placeholder="None"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Pad to aspect ratio</Label>
+              <Select
+                value={draft.aspectRatio ? String(draft.aspectRatio) : NONE}
+                onValueChange={(value) => setDraft({ ...draft, aspectRatio: value === NONE ? undefined : Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {ASPECT_RATIOS.map(({ value, label }) => (
+                    <SelectItem key={label} value={String(value)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {padded && (
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="post-pad-transparent" className="text-sm font-normal text-muted-foreground">
+                Transparent padding
+              </Label>
+              <div className="flex items-center gap-2">
+                {draft.padColor && (
+                  <Input
+                    type="color"
+                    className="h-8 w-12 p-1"
+                    value={draft.padColor}
+                    onChange={(e) => setDraft({ ...draft, padColor: e.target.value })}
+                  />
+                )}
+                <Switch
+                  id="post-pad-transparent"
+                  checked={!draft.padColor}
+                  onCheckedChange={(checked) => setDraft({ ...draft, padColor: checked ? undefined : "#ffffff" })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setDraft({})}>
+            Clear steps
+          </Button>
+          <Button onClick={handleApply}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
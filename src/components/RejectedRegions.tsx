@@ -0,0 +1,38 @@
+import { useState } from "react";
+import { RegionRejection } from "@/types/crop";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { ChevronDown, EyeOff } from "lucide-react";
+
+interface RejectedRegionsProps {
+  rejected: RegionRejection[];
+}
+
+/**
+ * Lists the regions detection dropped, so it's clear why something is missing
+ */
+export function RejectedRegions({ rejected }: RejectedRegionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-4 border-t border-border pt-3">
+      <CollapsibleTrigger className="flex w-full items-center justify-between gap-2 text-sm text-muted-foreground hover:text-foreground">
+        <span className="flex items-center gap-1.5">
+          <EyeOff className="w-3.5 h-3.5" />
+          {rejected.length} region(s) dropped
+        </span>
+        <ChevronDown className={cn("w-4 h-4 transition-transform", isOpen && "rotate-180")} />
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <ul className="mt-2 space-y-1.5 max-h-48 overflow-y-auto">
+          {rejected.map((rejection, index) => (
+            <li key={index} className="text-xs">
+              <span className="font-medium text-foreground">{rejection.label}</span>
+              <span className="text-muted-foreground"> — {rejection.reason}</span>
+            </li>
+          ))}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { RegionExportDialog } from "@/components/RegionExportDialog";
+import { RegionPostProcessDialog } from "@/components/RegionPostProcessDialog";
+import { REGION_SHAPES } from "@/lib/regionShapes";
+import { hasExportOverrides } from "@/lib/exportVariants";
+import { hasPostProcess } from "@/lib/postProcess";
+import { cn } from "@/lib/utils";
+import { RegionPostProcess, RegionShape } from "@/types/crop";
+import { RegionExportOverrides } from "@/types/export";
+import { Columns2, FileCog, FolderArchive, LayoutGrid, Pencil, PenTool, Shapes, SlidersHorizontal, Tags, Trash2, X } from "lucide-react";
+
+interface SelectionActionsProps {
+  selectedCount: number;
+  onRename: (name: string) => void;
+  /** Tags of the first selected region */
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+  /** Shape shared by all selected regions, or null when they differ */
+  shape: RegionShape | null;
+  onShapeChange: (shape: RegionShape) => void;
+  /** Whether all selected regions use four-corner perspective */
+  perspective: boolean;
+  onPerspectiveChange: (enabled: boolean) => void;
+  /** Whether any selected region is rotated */
+  rotated: boolean;
+  onResetRotation: () => void;
+  /** Post-processing of the first selected region */
+  postProcess: RegionPostProcess | undefined;
+  onPostProcessChange: (steps: RegionPostProcess | undefined) => void;
+  /** Export overrides of the first selected region */
+  exportOverrides: RegionExportOverrides | undefined;
+  onExportOverridesChange: (overrides: RegionExportOverrides | undefined) => void;
+  /** Opens the encoded-output comparison; only offered for a single region */
+  onCompare: () => void;
+  /** Whether the selection is a single icon or logo, which can be traced to SVG */
+  canVectorize: boolean;
+  onVectorize: () => void;
+  /** Opens the sprite sheet export for the selection */
+  onSpriteSheet: () => void;
+  onDownload: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+export function SelectionActions({
+  selectedCount,
+  onRename,
+  tags,
+  onTagsChange,
+  shape,
+  onShapeChange,
+  perspective,
+  onPerspectiveChange,
+  rotated,
+  onResetRotation,
+  postProcess,
+  onPostProcessChange,
+  exportOverrides,
+  onExportOverridesChange,
+  onCompare,
+  canVectorize,
+  onVectorize,
+  onSpriteSheet,
+  onDownload,
+  onDelete,
+  onClear,
+}: SelectionActionsProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isEditingExport, setIsEditingExport] = useState(false);
+  const [isEditingPostProcess, setIsEditingPostProcess] = useState(false);
+  const [name, setName] = useState("");
+  const [isTagging, setIsTagging] = useState(false);
+  const [tagText, setTagText] = useState("");
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onRename(name);
+    setIsRenaming(false);
+    setName("");
+  };
+
+  const handleTags = (e: React.FormEvent) => {
+    e.preventDefault();
+    onTagsChange([...new Set(tagText.split(",").map((tag) => tag.trim()).filter(Boolean))]);
+    setIsTagging(false);
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 mb-3 px-2 py-1.5 bg-primary/10 rounded-lg">
+        <span className="text-sm font-medium text-foreground">{selectedCount} selected</span>
+        <div className="flex items-center gap-1">
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setIsRenaming(true)} title="Rename">
+            <Pencil className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn("h-7 w-7", tags.length > 0 && "text-primary")}
+            onClick={() => {
+              setTagText(tags.join(", "));
+              setIsTagging(true);
+            }}
+            title={tags.length > 0 ? `Tags: ${tags.join(", ")}` : "Tags"}
+          >
+            <Tags className="w-3.5 h-3.5" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-7 w-7" title="Shape">
+                <Shapes className="w-3.5 h-3.5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Shape</DropdownMenuLabel>
+              <DropdownMenuRadioGroup value={shape ?? ""} onValueChange={(value) => onShapeChange(value as RegionShape)}>
+                {REGION_SHAPES.map(({ value, label }) => (
+                  <DropdownMenuRadioItem key={value} value={value}>
+                    {label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Transform</DropdownMenuLabel>
+              <DropdownMenuCheckboxItem checked={perspective} onCheckedChange={(checked) => onPerspectiveChange(!!checked)}>
+                Perspective (4 corners)
+              </DropdownMenuCheckboxItem>
+              <DropdownMenuItem disabled={!rotated} onSelect={onResetRotation}>
+                Reset rotation
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn("h-7 w-7", hasPostProcess(postProcess) && "text-primary")}
+            onClick={() => setIsEditingPostProcess(true)}
+            title="Post-processing (trim, padding, background removal)"
+          >
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={cn("h-7 w-7", hasExportOverrides(exportOverrides) && "text-primary")}
+            onClick={() => setIsEditingExport(true)}
+            title="Export overrides"
+          >
+            <FileCog className="w-3.5 h-3.5" />
+          </Button>
+          {selectedCount === 1 && (
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onCompare} title="Compare encoded output">
+              <Columns2 className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          {canVectorize && (
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onVectorize} title="Vectorize (SVG)">
+              <PenTool className="w-3.5 h-3.5" />
+            </Button>
+          )}
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onSpriteSheet} title="Sprite sheet">
+            <LayoutGrid className="w-3.5 h-3.5" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onDownload} title="Download selected (ZIP)">
+            <FolderArchive className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 hover:bg-destructive hover:text-destructive-foreground"
+            onClick={onDelete}
+            title="Delete selected"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onClear} title="Clear selection">
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={isRenaming} onOpenChange={setIsRenaming}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleRename} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Rename {selectedCount === 1 ? "image" : `${selectedCount} images`}</DialogTitle>
+              <DialogDescription>
+                {selectedCount === 1
+                  ? "The filename is derived from the name."
+                  : "Each image gets a number suffix, e.g. \"Icon 1\" saved as icon-1."}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="region-name">Name</Label>
+              <Input id="region-name" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsRenaming(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                Rename
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isTagging} onOpenChange={setIsTagging}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleTags} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Tag {selectedCount === 1 ? "image" : `${selectedCount} images`}</DialogTitle>
+              <DialogDescription>
+                Comma-separated. Export folder rules can sort tagged images into folders.
+                {selectedCount > 1 && " Replaces the tags of every selected image."}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="region-tags">Tags</Label>
+              <Input
+                id="region-tags"
+                value={tagText}
+                onChange={(e) => setTagText(e.target.value)}
+                placeholder="hero, marketing"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsTagging(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save tags</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <RegionPostProcessDialog
+        open={isEditingPostProcess}
+        onOpenChange={setIsEditingPostProcess}
+        selectedCount={selectedCount}
+        steps={postProcess}
+        onApply={onPostProcessChange}
+      />
+
+      <RegionExportDialog
+        open={isEditingExport}
+        onOpenChange={setIsEditingExport}
+        selectedCount={selectedCount}
+        overrides={exportOverrides}
+        onApply={onExportOverridesChange}
+      />
+    </>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { CropRegion } from "@/types/crop";
+import { ExportSettings } from "@/types/export";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { packSprites } from "@/lib/spriteSheet";
+import { uprightSize } from "@/lib/regionTransform";
+import { Loader2 } from "lucide-react";
+
+interface SpriteSheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The regions to pack */
+  regions: CropRegion[];
+  /** Image pixels per display pixel, as regions are in display coordinates */
+  scale: number;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onDownload: () => Promise<void>;
+}
+
+export function SpriteSheetDialog({
+  open,
+  onOpenChange,
+  regions,
+  scale,
+  settings,
+  onSettingsChange,
+  onDownload,
+}: SpriteSheetDialogProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { sprite } = settings;
+
+  const update = (changes: Partial<ExportSettings["sprite"]>) =>
+    onSettingsChange({ ...settings, sprite: { ...sprite, ...changes } });
+
+  // Estimate from the region boxes; trimming, padding and size limits can still change it
+  const estimate = packSprites(
+    regions.map((region) => {
+      const size = uprightSize(region);
+      return { width: Math.round(size.width * scale), height: Math.round(size.height * scale) };
+    }),
+    sprite.padding,
+    sprite.powerOfTwo,
+  );
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      await onDownload();
+      onOpenChange(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Sprite sheet</DialogTitle>
+          <DialogDescription>
+            Packs {regions.length === 1 ? "the selected region" : `the ${regions.length} selected regions`} into one
+            image, with a CSS file of background-position classes and a TexturePacker JSON atlas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="sprite-padding">Padding (px)</Label>
+              <Input
+                id="sprite-padding"
+                type="number"
+                min={0}
+                value={sprite.padding}
+                onChange={(e) => update({ padding: Math.max(0, Math.round(Number(e.target.value)) || 0) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={sprite.format} onValueChange={(format) => update({ format: format as "png" | "webp" })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="png">PNG</SelectItem>
+                  <SelectItem value="webp">WebP</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sprite-prefix">Class prefix</Label>
+            <Input
+              id="sprite-prefix"
+              value={sprite.prefix}
+              onChange={(e) => update({ prefix: e.target.value })}
+              placeholder="sprite"
+            />
+            <p className="text-xs text-muted-foreground">
+              Also names the files. Each region gets a class like .{sprite.prefix || "sprite"}-hero-icon.
+            </p>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="sprite-pot" className="font-normal">
+              Power-of-two sheet size
+            </Label>
+            <Switch id="sprite-pot" checked={sprite.powerOfTwo} onCheckedChange={(powerOfTwo) => update({ powerOfTwo })} />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="sprite-svg" className="font-normal">
+              Also write an SVG &lt;symbol&gt; sheet
+            </Label>
+            <Switch id="sprite-svg" checked={sprite.svg} onCheckedChange={(svg) => update({ svg })} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            About {estimate.width}×{estimate.height} px.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={isExporting || regions.length === 0} className="gap-2">
+            {isExporting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Download sprite sheet
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { CropRegion } from "@/types/crop";
+import { ExportSettings, RegionExportOverrides } from "@/types/export";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { SliderRow } from "@/components/EncoderControls";
+import { formatFileSize, vectorizeRegion } from "@/lib/imageUtils";
+import { VectorizeResult } from "@/lib/vectorize";
+import { resolveExportSettings } from "@/lib/exportVariants";
+import { Loader2 } from "lucide-react";
+
+interface VectorizeDialogProps {
+  /** The region to trace; the dialog is open while it is set */
+  region: CropRegion | null;
+  onClose: () => void;
+  imageSrc: string;
+  originalWidth: number;
+  originalHeight: number;
+  displayWidth: number;
+  displayHeight: number;
+  exportSettings: ExportSettings;
+  onApplyToRegion: (overrides: RegionExportOverrides) => void;
+  onApplyToExport: (settings: ExportSettings) => void;
+}
+
+interface Trace {
+  rasterUrl: string;
+  svgUrl: string;
+  width: number;
+  height: number;
+  vector: VectorizeResult;
+  bytes: number;
+}
+
+// Delay before tracing again after the fidelity changes (ms)
+const TRACE_DELAY = 300;
+
+export function VectorizeDialog({
+  region,
+  onClose,
+  imageSrc,
+  originalWidth,
+  originalHeight,
+  displayWidth,
+  displayHeight,
+  exportSettings,
+  onApplyToRegion,
+  onApplyToExport,
+}: VectorizeDialogProps) {
+  // Start from the fidelity the region would be exported with; the dialog is remounted for each region
+  const [fidelity, setFidelity] = useState(
+    () => resolveExportSettings(exportSettings, region?.exportOverrides).vectorize.fidelity,
+  );
+  const [zoom, setZoom] = useState("fit");
+  const [trace, setTrace] = useState<Trace | null>(null);
+  const [isTracing, setIsTracing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!region) return;
+
+    let cancelled = false;
+    const urls: string[] = [];
+    const timeout = setTimeout(async () => {
+      setIsTracing(true);
+      setError(null);
+      try {
+        const { crop, vector } = await vectorizeRegion(
+          imageSrc,
+          region,
+          originalWidth,
+          originalHeight,
+          displayWidth,
+          displayHeight,
+          exportSettings,
+          fidelity,
+        );
+        const svg = new Blob([vector.svg], { type: "image/svg+xml" });
+        const png = await new Promise<Blob | null>((resolve) => crop.toBlob(resolve));
+        if (!png) throw new Error("Failed to create blob");
+        urls.push(URL.createObjectURL(png), URL.createObjectURL(svg));
+        // The cleanup has already run and won't see these
+        if (cancelled) {
+          urls.forEach((url) => URL.revokeObjectURL(url));
+          return;
+        }
+        setTrace({
+          rasterUrl: urls[0],
+          svgUrl: urls[1],
+          width: crop.width,
+          height: crop.height,
+          vector,
+          bytes: svg.size,
+        });
+      } catch (error) {
+        console.error("Vectorizing failed:", error);
+        if (!cancelled) setError("Could not trace this region");
+      } finally {
+        if (!cancelled) setIsTracing(false);
+      }
+    }, TRACE_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [region, exportSettings, fidelity, imageSrc, originalWidth, originalHeight, displayWidth, displayHeight]);
+
+  // Exporting SVGs is a ZIP setting; applying a fidelity implies wanting them
+  const enableExport = () => {
+    if (!exportSettings.vectorize.enabled) {
+      onApplyToExport({ ...exportSettings, vectorize: { ...exportSettings.vectorize, enabled: true } });
+    }
+  };
+
+  const imageStyle: React.CSSProperties | undefined =
+    trace && zoom !== "fit" ? { width: trace.width * Number(zoom), maxWidth: "none" } : undefined;
+
+  return (
+    <Dialog open={!!region} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Vectorize {region?.label ? `"${region.label}"` : "region"}</DialogTitle>
+          <DialogDescription>
+            Traces the crop into flat color shapes. ZIP exports write the SVG next to or instead of the raster files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="w-64">
+            <SliderRow label="Fidelity" value={fidelity} min={0} max={100} onChange={setFidelity} />
+          </div>
+          <ToggleGroup type="single" size="sm" variant="outline" value={zoom} onValueChange={(value) => value && setZoom(value)}>
+            <ToggleGroupItem value="fit">Fit</ToggleGroupItem>
+            <ToggleGroupItem value="2">2:1</ToggleGroupItem>
+            <ToggleGroupItem value="4">4:1</ToggleGroupItem>
+          </ToggleGroup>
+          {isTracing && <Loader2 className="w-4 h-4 mb-2 animate-spin text-muted-foreground" />}
+        </div>
+
+        <div className="h-[55vh] bg-muted rounded-lg overflow-hidden">
+          {error ? (
+            <p className="h-full flex items-center justify-center text-sm text-destructive">{error}</p>
+          ) : !trace ? (
+            <div className="h-full flex items-center justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-1 h-full">
+              {[
+                { label: "Raster", url: trace.rasterUrl, pixelated: true },
+                { label: "SVG", url: trace.svgUrl, pixelated: false },
+              ].map(({ label, url, pixelated }) => (
+                <div key={label} className="relative overflow-auto">
+                  <span className="absolute top-2 left-2 z-10 px-2 py-0.5 bg-card/90 text-xs rounded">{label}</span>
+                  <img
+                    src={url}
+                    alt={label}
+                    className="max-w-full"
+                    style={{ ...imageStyle, imageRendering: pixelated && imageStyle ? "pixelated" : undefined }}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {trace && (
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+            <span>
+              <span className="text-muted-foreground">SVG </span>
+              {formatFileSize(trace.bytes)}
+            </span>
+            <span>
+              <span className="text-muted-foreground">Colors </span>
+              {trace.vector.colors}
+            </span>
+            <span>
+              <span className="text-muted-foreground">Paths </span>
+              {trace.vector.paths}
+            </span>
+            <span>
+              <span className="text-muted-foreground">Size </span>
+              {trace.width}×{trace.height}
+            </span>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => {
+              onApplyToRegion({ fidelity });
+              enableExport();
+              onClose();
+            }}
+          >
+            Use for this region
+          </Button>
+          <Button
+            onClick={() => {
+              onApplyToExport({ ...exportSettings, vectorize: { ...exportSettings.vectorize, enabled: true, fidelity } });
+              onClose();
+            }}
+          >
+            Use for all exports
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,42 +1,215 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef, useMemo } from "react";
 import { CropRegion } from "@/types/crop";
+import { toKebabCase } from "@/lib/utils";
+
+// Maximum number of undo steps kept in memory
+const MAX_HISTORY = 100;
+
+/**
+ * How a click combines with the existing selection
+ * - replace: select only the clicked region
+ * - toggle: add or remove the region (shift/⌘/Ctrl-click)
+ * - add: add without ever removing (marquee with shift)
+ */
+export type SelectionMode = "replace" | "toggle" | "add";
+
+interface EditorState {
+  regions: CropRegion[];
+  past: CropRegion[][];
+  future: CropRegion[][];
+}
 
 export function useCropEditor(initialRegions: CropRegion[] = []) {
-  const [regions, setRegions] = useState<CropRegion[]>(initialRegions);
-  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [state, setState] = useState<EditorState>({ regions: initialRegions, past: [], future: [] });
+  const [selection, setSelection] = useState<string[]>([]);
 
-  const updateRegion = useCallback((id: string, updates: Partial<CropRegion>) => {
-    setRegions((prev) =>
-      prev.map((r) => (r.id === id ? { ...r, ...updates } : r))
-    );
+  // While a gesture (drag/resize) is in progress, edits are applied without
+  // creating history entries; the whole gesture is recorded once when it ends.
+  const regionsRef = useRef(state.regions);
+  regionsRef.current = state.regions;
+  const gestureStartRef = useRef<CropRegion[] | null>(null);
+
+  /**
+   * Applies a change to the region list and records the previous list as an undo step
+   */
+  const commit = useCallback((recipe: (prev: CropRegion[]) => CropRegion[]) => {
+    const transient = gestureStartRef.current !== null;
+    setState((prev) => {
+      const regions = recipe(prev.regions);
+      if (regions === prev.regions) return prev;
+      if (transient) return { ...prev, regions };
+      return { regions, past: [...prev.past, prev.regions].slice(-MAX_HISTORY), future: [] };
+    });
   }, []);
 
-  const deleteRegion = useCallback((id: string) => {
-    setRegions((prev) => prev.filter((r) => r.id !== id));
-    if (selectedId === id) setSelectedId(null);
-  }, [selectedId]);
+  const beginGesture = useCallback(() => {
+    gestureStartRef.current = regionsRef.current;
+  }, []);
 
-  const addRegion = useCallback((region: Omit<CropRegion, "id">) => {
-    const newRegion: CropRegion = {
-      ...region,
-      id: `crop-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    };
-    setRegions((prev) => [...prev, newRegion]);
-    return newRegion.id;
+  const endGesture = useCallback(() => {
+    const start = gestureStartRef.current;
+    gestureStartRef.current = null;
+    if (!start) return;
+    setState((prev) =>
+      prev.regions === start ? prev : { ...prev, past: [...prev.past, start].slice(-MAX_HISTORY), future: [] },
+    );
   }, []);
 
+  const updateRegion = useCallback(
+    (id: string, updates: Partial<CropRegion>) => {
+      commit((prev) => (prev.some((r) => r.id === id) ? prev.map((r) => (r.id === id ? { ...r, ...updates } : r)) : prev));
+    },
+    [commit],
+  );
+
+  /**
+   * Applies different updates to several regions as one step
+   */
+  const updateRegions = useCallback(
+    (updates: Record<string, Partial<CropRegion>>) => {
+      commit((prev) => (prev.some((r) => updates[r.id]) ? prev.map((r) => (updates[r.id] ? { ...r, ...updates[r.id] } : r)) : prev));
+    },
+    [commit],
+  );
+
+  const deleteRegions = useCallback(
+    (ids: string[]) => {
+      commit((prev) => (prev.some((r) => ids.includes(r.id)) ? prev.filter((r) => !ids.includes(r.id)) : prev));
+      setSelection((current) => current.filter((id) => !ids.includes(id)));
+    },
+    [commit],
+  );
+
+  const deleteRegion = useCallback((id: string) => deleteRegions([id]), [deleteRegions]);
+
+  const moveRegions = useCallback(
+    (ids: string[], dx: number, dy: number) => {
+      if (dx === 0 && dy === 0) return;
+      commit((prev) =>
+        prev.some((r) => ids.includes(r.id))
+          ? prev.map((r) => (ids.includes(r.id) ? { ...r, x: r.x + dx, y: r.y + dy } : r))
+          : prev,
+      );
+    },
+    [commit],
+  );
+
+  /**
+   * Renames regions in list order; several regions get a numeric suffix ("Icon 1", "icon-1", ...)
+   */
+  const renameRegions = useCallback(
+    (ids: string[], name: string) => {
+      const label = name.trim();
+      if (!label) return;
+      commit((prev) => {
+        const targets = prev.filter((r) => ids.includes(r.id));
+        if (targets.length === 0) return prev;
+        return prev.map((r) => {
+          const position = targets.indexOf(r);
+          if (position === -1) return r;
+          const suffix = targets.length > 1 ? ` ${position + 1}` : "";
+          return { ...r, label: `${label}${suffix}`, filename: toKebabCase(`${label}${suffix}`) };
+        });
+      });
+    },
+    [commit],
+  );
+
+  const addRegion = useCallback(
+    (region: Omit<CropRegion, "id">) => {
+      const newRegion: CropRegion = {
+        ...region,
+        id: `crop-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      };
+      commit((prev) => [...prev, newRegion]);
+      return newRegion.id;
+    },
+    [commit],
+  );
+
+  /**
+   * Replaces the whole region set as a single undoable step (e.g. after a re-scan)
+   */
+  const replaceRegions = useCallback(
+    (newRegions: CropRegion[]) => {
+      commit(() => newRegions);
+      setSelection([]);
+    },
+    [commit],
+  );
+
+  /**
+   * Starts over with a new region set and an empty history (e.g. a new image)
+   */
   const resetRegions = useCallback((newRegions: CropRegion[]) => {
-    setRegions(newRegions);
-    setSelectedId(null);
+    gestureStartRef.current = null;
+    setState({ regions: newRegions, past: [], future: [] });
+    setSelection([]);
+  }, []);
+
+  const selectRegion = useCallback((id: string | null, mode: SelectionMode = "replace") => {
+    if (id === null) {
+      setSelection([]);
+      return;
+    }
+    setSelection((current) => {
+      if (mode === "toggle") return current.includes(id) ? current.filter((s) => s !== id) : [...current, id];
+      if (mode === "add") return current.includes(id) ? current : [...current, id];
+      return [id];
+    });
+  }, []);
+
+  const selectRegions = useCallback((ids: string[], mode: Exclude<SelectionMode, "toggle"> = "replace") => {
+    setSelection((current) => (mode === "add" ? [...current, ...ids.filter((id) => !current.includes(id))] : ids));
+  }, []);
+
+  const undo = useCallback(() => {
+    setState((prev) => {
+      if (prev.past.length === 0) return prev;
+      return {
+        regions: prev.past[prev.past.length - 1],
+        past: prev.past.slice(0, -1),
+        future: [prev.regions, ...prev.future],
+      };
+    });
   }, []);
 
+  const redo = useCallback(() => {
+    setState((prev) => {
+      if (prev.future.length === 0) return prev;
+      return {
+        regions: prev.future[0],
+        past: [...prev.past, prev.regions],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Undo/redo can remove regions that are still selected; only expose ids that exist
+  const selectedIds = useMemo(
+    () => selection.filter((id) => state.regions.some((r) => r.id === id)),
+    [selection, state.regions],
+  );
+
   return {
-    regions,
-    selectedId,
-    setSelectedId,
+    regions: state.regions,
+    selectedIds,
+    selectRegion,
+    selectRegions,
     updateRegion,
+    updateRegions,
     deleteRegion,
+    deleteRegions,
+    moveRegions,
+    renameRegions,
     addRegion,
+    replaceRegions,
     resetRegions,
+    beginGesture,
+    endGesture,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
   };
 }
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { CropRegion } from "@/types/crop";
+import { DuplicateGroup, findDuplicateGroups } from "@/lib/duplicates";
+
+// Wait for drags and typing to settle before hashing changed regions
+const GROUPING_DELAY = 500;
+
+/**
+ * Groups of identical or near-identical regions of the active image, kept up to date as regions change
+ */
+export function useDuplicateGroups(
+  imageSrc: string | null,
+  regions: CropRegion[],
+  originalDimensions: { width: number; height: number },
+  displayDimensions: { width: number; height: number },
+  threshold: number,
+): DuplicateGroup[] {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+
+  useEffect(() => {
+    if (!imageSrc || regions.length < 2 || !displayDimensions.width || !displayDimensions.height) {
+      setGroups([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      findDuplicateGroups(
+        imageSrc,
+        regions,
+        originalDimensions.width,
+        originalDimensions.height,
+        displayDimensions.width,
+        displayDimensions.height,
+        threshold,
+      )
+        .then((result) => !cancelled && setGroups(result))
+        .catch((error) => console.error("Duplicate grouping failed:", error));
+    }, GROUPING_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [imageSrc, regions, originalDimensions, displayDimensions, threshold]);
+
+  return groups;
+}
@@ -0,0 +1,40 @@
+import { useState, useCallback } from "react";
+import { SourceImage } from "@/types/batch";
+import { createSourceImage } from "@/lib/imageUtils";
+
+export function useImageQueue() {
+  const [images, setImages] = useState<SourceImage[]>([]);
+
+  /**
+   * Reads the given files and appends them to the queue; non-image files are skipped
+   */
+  const addFiles = useCallback(async (files: File[]) => {
+    const imageFiles = files.filter((file) => file.type.startsWith("image/"));
+    const added = await Promise.all(imageFiles.map((file) => createSourceImage(file)));
+    setImages((prev) => [...prev, ...added]);
+    return added;
+  }, []);
+
+  const updateImage = useCallback((id: string, updates: Partial<SourceImage>) => {
+    setImages((prev) => prev.map((image) => (image.id === id ? { ...image, ...updates } : image)));
+  }, []);
+
+  const removeImage = useCallback((id: string) => {
+    setImages((prev) => prev.filter((image) => image.id !== id));
+  }, []);
+
+  /**
+   * Replaces the whole queue (e.g. when restoring a project or starting over)
+   */
+  const replaceImages = useCallback((newImages: SourceImage[]) => {
+    setImages(newImages);
+  }, []);
+
+  return {
+    images,
+    addFiles,
+    updateImage,
+    removeImage,
+    replaceImages,
+  };
+}
@@ -0,0 +1,35 @@
+import { useEffect } from "react";
+import { SourceImage } from "@/types/batch";
+import { ExportSettings } from "@/types/export";
+import { saveProject } from "@/lib/projectStore";
+
+// Debounce so drags, typing and progress updates don't write to IndexedDB on every change
+const AUTOSAVE_DELAY = 500;
+
+/**
+ * Saves the open project to IndexedDB whenever its images, regions or export settings change
+ */
+export function useProjectAutosave(projectId: string | null, images: SourceImage[], exportSettings: ExportSettings) {
+  useEffect(() => {
+    if (!projectId || images.length === 0) return;
+
+    const timeout = setTimeout(() => {
+      const firstName = images[0].file.name.replace(/\.[^/.]+$/, "");
+      saveProject({
+        id: projectId,
+        name: images.length > 1 ? `${firstName} + ${images.length - 1} more` : firstName,
+        images: images.map((image) => ({
+          id: image.id,
+          image: image.file,
+          imageName: image.file.name,
+          regions: image.regions,
+          // An interrupted scan can simply be started again
+          status: image.status === "done" || image.status === "error" ? image.status : "pending",
+        })),
+        exportSettings,
+      }).catch((error) => console.error("Failed to save project:", error));
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [projectId, images, exportSettings]);
+}
@@ -0,0 +1,128 @@
+import { ImageFormat } from "@/types/export";
+
+export interface QualityScores {
+  /** Peak signal-to-noise ratio in dB over RGB; Infinity when the images are identical */
+  psnr: number;
+  /** Mean structural similarity of the luma channel, 0-1 */
+  ssim: number;
+}
+
+// SSIM is computed over windows of this size, moved by half a window
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/**
+ * Draws an encoded image at the given size. Formats the browser can't decode (JPEG XL in most browsers)
+ * are decoded with the WASM codec instead.
+ */
+export async function decodeToCanvas(
+  blob: Blob,
+  format: ImageFormat,
+  width: number,
+  height: number,
+): Promise<HTMLCanvasElement> {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  let source: CanvasImageSource;
+  try {
+    source = await createImageBitmap(blob);
+  } catch (error) {
+    if (format !== "jxl") throw error;
+    const { default: decode } = await import("@jsquash/jxl/decode.js");
+    const decoded = await decode(await blob.arrayBuffer());
+    const decodedCanvas = document.createElement("canvas");
+    decodedCanvas.width = decoded.width;
+    decodedCanvas.height = decoded.height;
+    decodedCanvas.getContext("2d")?.putImageData(decoded, 0, 0);
+    source = decodedCanvas;
+  }
+  // Encodes scaled down to fit a size budget are compared at the original size
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+  return canvas;
+}
+
+/**
+ * Composites a pixel over white and returns its RGB, so transparent areas compare like they are displayed
+ */
+function flatten(data: Uint8ClampedArray, i: number, channel: number): number {
+  const alpha = data[i + 3] / 255;
+  return data[i + channel] * alpha + 255 * (1 - alpha);
+}
+
+/**
+ * PSNR and SSIM of an encoded image against the original; both must have the same size
+ */
+export function measureQuality(original: ImageData, encoded: ImageData): QualityScores {
+  const { width, height } = original;
+  const luma = (data: Uint8ClampedArray) => {
+    const result = new Float32Array(width * height);
+    for (let p = 0; p < result.length; p++) {
+      const i = p * 4;
+      result[p] = 0.299 * flatten(data, i, 0) + 0.587 * flatten(data, i, 1) + 0.114 * flatten(data, i, 2);
+    }
+    return result;
+  };
+
+  let squaredError = 0;
+  for (let i = 0; i < original.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = flatten(original.data, i, c) - flatten(encoded.data, i, c);
+      squaredError += diff * diff;
+    }
+  }
+  const mse = squaredError / (width * height * 3);
+  const psnr = mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+
+  const a = luma(original.data);
+  const b = luma(encoded.data);
+  const windowSize = Math.min(SSIM_WINDOW, width, height);
+  let ssimSum = 0;
+  let windows = 0;
+  for (let y = 0; y + windowSize <= height; y += SSIM_STEP) {
+    for (let x = 0; x + windowSize <= width; x += SSIM_STEP) {
+      let meanA = 0;
+      let meanB = 0;
+      for (let wy = 0; wy < windowSize; wy++) {
+        for (let wx = 0; wx < windowSize; wx++) {
+          const p = (y + wy) * width + x + wx;
+          meanA += a[p];
+          meanB += b[p];
+        }
+      }
+      const n = windowSize * windowSize;
+      meanA /= n;
+      meanB /= n;
+
+      let varA = 0;
+      let varB = 0;
+      let covariance = 0;
+      for (let wy = 0; wy < windowSize; wy++) {
+        for (let wx = 0; wx < windowSize; wx++) {
+          const p = (y + wy) * width + x + wx;
+          const da = a[p] - meanA;
+          const db = b[p] - meanB;
+          varA += da * da;
+          varB += db * db;
+          covariance += da * db;
+        }
+      }
+      varA /= n - 1 || 1;
+      varB /= n - 1 || 1;
+      covariance /= n - 1 || 1;
+
+      ssimSum +=
+        ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return { psnr, ssim: windows > 0 ? ssimSum / windows : 1 };
+}
@@ -0,0 +1,224 @@
+import { CropRegion, DetectionMode, DetectionResult } from "@/types/crop";
+import { loadImage } from "@/lib/imageUtils";
+import { detectRegionsLocally, LocalDetectorResponse, PixelBuffer } from "@/lib/localDetector";
+
+// The local detector analyzes a downscaled copy; pixel statistics don't need full resolution
+const LOCAL_MAX_WIDTH = 1000;
+const LOCAL_MAX_PIXELS = 4_000_000;
+
+/**
+ * Error reported by the detection service itself (rate limits, credits, ...),
+ * with a message that can be shown to the user as-is
+ */
+export class DetectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DetectionError";
+  }
+}
+
+/**
+ * Callbacks and cancellation for a detection run
+ * - onProgress: a real processing stage finished
+ * - onRegions: regions found so far (AI mode streams them per tile), for a live preview
+ * - signal: aborts the request; the returned promise rejects with an AbortError
+ */
+export interface DetectionOptions {
+  onProgress: (progress: number, step: string) => void;
+  onRegions?: (regions: CropRegion[]) => void;
+  signal?: AbortSignal;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parses a text/event-stream body into events as they arrive
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) yield { event, data: data.join("\n") };
+    }
+  }
+}
+
+/**
+ * Runs AI detection for one image through the detect-images edge function, streaming real progress
+ */
+export async function detectImages(
+  imageSrc: string,
+  width: number,
+  height: number,
+  { onProgress, onRegions, signal }: DetectionOptions,
+): Promise<DetectionResult> {
+  onProgress(0, "Uploading image...");
+
+  const key = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/detect-images`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${key}`, apikey: key },
+    body: JSON.stringify({
+      imageBase64: imageSrc,
+      width,
+      height,
+      stream: true,
+      // Optional provider/model override, e.g. VITE_DETECTION_PROVIDER=mock for offline development
+      provider: import.meta.env.VITE_DETECTION_PROVIDER || undefined,
+      model: import.meta.env.VITE_DETECTION_MODEL || undefined,
+    }),
+    signal,
+  });
+
+  // Errors before streaming starts (bad request, unknown provider) come back as plain JSON
+  if (!response.ok || !response.body || !response.headers.get("Content-Type")?.includes("text/event-stream")) {
+    const data = await response.json().catch(() => ({}));
+    throw new DetectionError(data.error || `Detection failed (${response.status})`);
+  }
+
+  // Tiles stream their regions independently; keep the latest set per tile for the preview
+  const partial = new Map<number | null, CropRegion[]>();
+
+  for await (const { event, data } of readServerSentEvents(response.body)) {
+    const payload = JSON.parse(data);
+    switch (event) {
+      case "stage":
+        onProgress(payload.progress, payload.message);
+        break;
+      case "regions":
+        partial.set(payload.tile, payload.regions);
+        onRegions?.(Array.from(partial.values()).flat());
+        break;
+      case "result":
+        return payload;
+      case "error":
+        throw new DetectionError(payload.error);
+    }
+  }
+
+  throw new DetectionError("Detection ended unexpectedly. Please try again.");
+}
+
+function runLocalDetectorWorker(
+  pixels: PixelBuffer,
+  onProgress?: (progress: number, step: string) => void,
+  signal?: AbortSignal,
+): Promise<DetectionResult> {
+  // Fall back to the main thread where workers are unavailable
+  if (typeof Worker === "undefined") {
+    return Promise.resolve(detectRegionsLocally(pixels, onProgress));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("../workers/localDetector.worker.ts", import.meta.url), { type: "module" });
+    const abort = () => {
+      worker.terminate();
+      reject(new DOMException("Detection cancelled", "AbortError"));
+    };
+    if (signal?.aborted) return abort();
+    signal?.addEventListener("abort", abort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<LocalDetectorResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress, message.step);
+        return;
+      }
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+      if (message.type === "result") resolve(message.result);
+      else reject(new DetectionError(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+      reject(new Error(event.message || "Local detector crashed"));
+    };
+    const buffer = pixels.data.buffer as ArrayBuffer;
+    worker.postMessage({ width: pixels.width, height: pixels.height, buffer }, [buffer]);
+  });
+}
+
+/**
+ * Runs the offline heuristic detector in a web worker; nothing leaves the browser
+ */
+export async function detectImagesLocally(
+  imageSrc: string,
+  width: number,
+  height: number,
+  onProgress?: (progress: number, step: string) => void,
+  signal?: AbortSignal,
+): Promise<DetectionResult> {
+  const img = await loadImage(imageSrc);
+  const scale = Math.min(1, LOCAL_MAX_WIDTH / width, Math.sqrt(LOCAL_MAX_PIXELS / (width * height)));
+  const scaledWidth = Math.max(1, Math.round(width * scale));
+  const scaledHeight = Math.max(1, Math.round(height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = scaledWidth;
+  canvas.height = scaledHeight;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0, scaledWidth, scaledHeight);
+  const imageData = ctx.getImageData(0, 0, scaledWidth, scaledHeight);
+
+  const result = await runLocalDetectorWorker(
+    { data: imageData.data, width: scaledWidth, height: scaledHeight },
+    onProgress,
+    signal,
+  );
+
+  // Map regions back to natural image coordinates
+  return {
+    ...result,
+    regions: result.regions.map((region) => ({
+      ...region,
+      x: Math.round(region.x / scale),
+      y: Math.round(region.y / scale),
+      width: Math.min(width, Math.round(region.width / scale)),
+      height: Math.min(height, Math.round(region.height / scale)),
+    })),
+  };
+}
+
+/**
+ * Detects embedded images with the chosen detector, reporting progress along the way
+ */
+export async function runDetection(
+  mode: DetectionMode,
+  imageSrc: string,
+  width: number,
+  height: number,
+  options: DetectionOptions,
+): Promise<DetectionResult> {
+  if (mode === "local") {
+    return detectImagesLocally(imageSrc, width, height, options.onProgress, options.signal);
+  }
+  return detectImages(imageSrc, width, height, options);
+}
+
+/**
+ * True for the rejection produced by aborting a detection run
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
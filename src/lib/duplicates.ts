@@ -0,0 +1,210 @@
+import { CropRegion } from "@/types/crop";
+import { loadImage } from "@/lib/imageUtils";
+import { applyRegionMask } from "@/lib/regionShapes";
+import { renderRegionUpright, uprightSize } from "@/lib/regionTransform";
+import { applyPostProcess } from "@/lib/postProcess";
+
+// Crops are reduced to this size before hashing; pHash only looks at the lowest frequencies
+const HASH_SIZE = 32;
+const DCT_SIZE = 8;
+// Aspect ratios of grouped crops may differ by this share (rounding, a pixel more or less in the box)
+const ASPECT_TOLERANCE = 0.08;
+
+/**
+ * Regions that show the same asset. The canonical region is the largest one, which is what gets exported
+ * when duplicates are merged.
+ */
+export interface DuplicateGroup {
+  canonicalId: string;
+  /** All regions of the group, canonical first */
+  regionIds: string[];
+  /** Same hash and same pixel size, as opposed to near-identical */
+  exact: boolean;
+}
+
+interface RegionHash {
+  /** 64-bit perceptual hash as 16 hex digits */
+  hash: string;
+  width: number;
+  height: number;
+}
+
+// Hashes by image and region pixels, so unchanged regions aren't rendered again while editing
+let cache: { src: string; hashes: Map<string, RegionHash> } | null = null;
+
+/**
+ * Everything about a region that changes its pixels, post-processing included
+ */
+function pixelsKey(region: CropRegion, scaleX: number, scaleY: number): string {
+  const { x, y, width, height, shape, cornerRadius, points, rotation, quad, postProcess } = region;
+  return JSON.stringify([
+    x * scaleX,
+    y * scaleY,
+    width * scaleX,
+    height * scaleY,
+    shape,
+    cornerRadius,
+    points,
+    rotation,
+    quad,
+    postProcess,
+  ]);
+}
+
+/**
+ * DCT-based perceptual hash: the signs of the lowest 8x8 frequencies against their median, leaving out the
+ * DC row and column (overall brightness and its one-directional drift). Transparent pixels are composited on white, like the exports are usually shown.
+ */
+function perceptualHash(crop: HTMLCanvasElement): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = HASH_SIZE;
+  canvas.height = HASH_SIZE;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, HASH_SIZE, HASH_SIZE);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(crop, 0, 0, HASH_SIZE, HASH_SIZE);
+  const { data } = ctx.getImageData(0, 0, HASH_SIZE, HASH_SIZE);
+
+  const luma = new Float64Array(HASH_SIZE * HASH_SIZE);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  // Separable DCT-II, only the low frequencies that end up in the hash: 1 to 8, as in the original pHash
+  const cosines = new Float64Array(DCT_SIZE * HASH_SIZE);
+  for (let u = 0; u < DCT_SIZE; u++) {
+    for (let x = 0; x < HASH_SIZE; x++) {
+      cosines[u * HASH_SIZE + x] = Math.cos(((2 * x + 1) * (u + 1) * Math.PI) / (2 * HASH_SIZE));
+    }
+  }
+  const rows = new Float64Array(HASH_SIZE * DCT_SIZE);
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let u = 0; u < DCT_SIZE; u++) {
+      let sum = 0;
+      for (let x = 0; x < HASH_SIZE; x++) sum += luma[y * HASH_SIZE + x] * cosines[u * HASH_SIZE + x];
+      rows[y * DCT_SIZE + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < DCT_SIZE; v++) {
+    for (let u = 0; u < DCT_SIZE; u++) {
+      let sum = 0;
+      for (let y = 0; y < HASH_SIZE; y++) sum += rows[y * DCT_SIZE + u] * cosines[v * HASH_SIZE + y];
+      coefficients.push(sum);
+    }
+  }
+
+  const sorted = [...coefficients].sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+  let hash = "";
+  for (let nibble = 0; nibble < 16; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) value = (value << 1) | (coefficients[nibble * 4 + bit] > median ? 1 : 0);
+    hash += value.toString(16);
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hex hashes
+ */
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Groups regions that show the same asset: exact copies and, up to `threshold` differing hash bits,
+ * near-identical ones (recompressed, slightly shifted). Crops with clearly different aspect ratios are never
+ * grouped. Regions without a duplicate aren't part of any group.
+ */
+export async function findDuplicateGroups(
+  imageSrc: string,
+  regions: CropRegion[],
+  originalWidth: number,
+  originalHeight: number,
+  displayWidth: number,
+  displayHeight: number,
+  threshold: number,
+): Promise<DuplicateGroup[]> {
+  if (regions.length < 2) return [];
+  if (cache?.src !== imageSrc) cache = { src: imageSrc, hashes: new Map() };
+  const hashes = cache.hashes;
+
+  const scaleX = originalWidth / displayWidth;
+  const scaleY = originalHeight / displayHeight;
+  let img: HTMLImageElement | null = null;
+  const entries: RegionHash[] = [];
+  for (const region of regions) {
+    const key = pixelsKey(region, scaleX, scaleY);
+    let entry = hashes.get(key);
+    if (!entry) {
+      img ??= await loadImage(imageSrc);
+      const scaled = {
+        ...region,
+        x: region.x * scaleX,
+        y: region.y * scaleY,
+        width: region.width * scaleX,
+        height: region.height * scaleY,
+      };
+      const canvas = renderRegionUpright(img, scaled, HASH_SIZE * 4);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Could not get canvas context");
+      applyRegionMask(ctx, region);
+      // Hashed as exported, so regions with different trim, padding or knockout don't end up merged
+      const scale = canvas.width / uprightSize(scaled).width;
+      const processed = applyPostProcess({ canvas, ctx }, region.postProcess, scale).canvas;
+      entry = {
+        hash: perceptualHash(processed),
+        width: Math.round(processed.width / scale),
+        height: Math.round(processed.height / scale),
+      };
+      hashes.set(key, entry);
+    }
+    entries.push(entry);
+  }
+
+  // Union-find over all similar pairs, so a chain of near-identical crops ends up in one group
+  const parent = regions.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const a = entries[i];
+      const b = entries[j];
+      const aspectA = a.width / a.height;
+      const aspectB = b.width / b.height;
+      if (Math.abs(aspectA - aspectB) > ASPECT_TOLERANCE * Math.max(aspectA, aspectB)) continue;
+      if (hammingDistance(a.hash, b.hash) <= threshold) parent[find(j)] = find(i);
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  regions.forEach((_, i) => members.set(find(i), [...(members.get(find(i)) ?? []), i]));
+
+  const groups: DuplicateGroup[] = [];
+  for (const indices of members.values()) {
+    if (indices.length < 2) continue;
+    // Largest first; ties keep the export order
+    const ordered = [...indices].sort(
+      (a, b) => entries[b].width * entries[b].height - entries[a].width * entries[a].height || a - b,
+    );
+    const first = entries[ordered[0]];
+    groups.push({
+      canonicalId: regions[ordered[0]].id,
+      regionIds: ordered.map((i) => regions[i].id),
+      exact: ordered.every(
+        (i) => entries[i].hash === first.hash && entries[i].width === first.width && entries[i].height === first.height,
+      ),
+    });
+  }
+  return groups;
+}
@@ -0,0 +1,157 @@
+import { CropRegion } from "@/types/crop";
+import { ExportManifest, ManifestAsset, ManifestFile, ManifestSource } from "@/types/export";
+
+// Identifiers that can't be used as a const name in the generated module
+const RESERVED_WORDS = new Set(
+  (
+    "break case catch class const continue debugger default delete do else enum export extends false finally for " +
+    "function if import in instanceof new null return super switch this throw true try typeof var void while with " +
+    "yield let static implements interface package private protected public await assets"
+  ).split(" "),
+);
+
+/**
+ * SHA-256 of a blob as lowercase hex
+ */
+export async function hashBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * camelCase identifier for an asset name, made unique among `used`
+ */
+function toIdentifier(name: string, used: Set<string>): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  let base = words
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+    .join("");
+  if (!base || /^\d/.test(base)) base = `asset${base[0]?.toUpperCase() ?? ""}${base.slice(1)}`;
+  if (RESERVED_WORDS.has(base)) base = `${base}Asset`;
+
+  let identifier = base;
+  for (let n = 2; used.has(identifier); n++) identifier = `${base}${n}`;
+  used.add(identifier);
+  return identifier;
+}
+
+/**
+ * srcset value for a region's variants (paths relative to the module), or undefined when there is only one file
+ */
+function srcSet(asset: ManifestAsset): string | undefined {
+  if (asset.variants.length < 2) return undefined;
+  return [...asset.variants]
+    .reverse()
+    .map((variant) => `./${variant.file} ${variant.density ? `${variant.density}x` : `${variant.width}w`}`)
+    .join(", ");
+}
+
+function toAssetFile({ file, width, height, format, bytes, hash, density }: ManifestFile) {
+  return { src: `./${file}`, width, height, format, bytes, hash, density };
+}
+
+/**
+ * TypeScript module with a typed constant per asset and an `assets` map of all of them. Paths are relative
+ * to the module, which sits next to the images.
+ */
+export function generateAssetModule(manifest: ExportManifest): string {
+  const used = new Set<string>();
+  const lines = [
+    `// Generated by Image Slicer from ${manifest.source.file}. Do not edit.`,
+    "",
+    "export interface AssetFile {",
+    "  src: string;",
+    "  width: number;",
+    "  height: number;",
+    "  format: string;",
+    "  bytes: number;",
+    "  hash: string;",
+    "  density?: number;",
+    "}",
+    "",
+    "export interface Asset extends AssetFile {",
+    "  label?: string;",
+    "  /** The region in the source image */",
+    "  source: { x: number; y: number; width: number; height: number; rotation?: number };",
+    "  variants: readonly AssetFile[];",
+    "  srcSet?: string;",
+    "  /** Traced SVG next to the raster files */",
+    "  vector?: AssetFile;",
+    "}",
+    "",
+  ];
+
+  const identifiers: string[] = [];
+  for (const asset of manifest.assets) {
+    const identifier = toIdentifier(asset.name, used);
+    identifiers.push(identifier);
+    // Undefined fields are left out by JSON.stringify
+    const value = {
+      ...toAssetFile(asset),
+      label: asset.label,
+      source: asset.source,
+      variants: asset.variants.map(toAssetFile),
+      srcSet: srcSet(asset),
+      vector: asset.vector && toAssetFile(asset.vector),
+    };
+    lines.push(`export const ${identifier} = ${JSON.stringify(value, null, 2)} as const satisfies Asset;`, "");
+  }
+
+  lines.push(`export const assets = { ${identifiers.join(", ")} } as const;`, "");
+  lines.push("export type AssetName = keyof typeof assets;", "");
+  return lines.join("\n");
+}
+
+/**
+ * A region's position in source image pixels; `scaleX`/`scaleY` map its coordinates to them
+ */
+export function manifestSource(region: CropRegion, scaleX: number, scaleY: number): ManifestSource {
+  return {
+    x: Math.round(region.x * scaleX),
+    y: Math.round(region.y * scaleY),
+    width: Math.round(region.width * scaleX),
+    height: Math.round(region.height * scaleY),
+    rotation: region.rotation || undefined,
+  };
+}
+
+/** A file as written into the ZIP */
+interface ExportedFile {
+  file: string;
+  blob: Blob;
+  width: number;
+  height: number;
+  format: ManifestFile["format"];
+  density?: number;
+}
+
+export async function manifestFile({ file, blob, width, height, format, density }: ExportedFile): Promise<ManifestFile> {
+  return { file, width, height, format, bytes: blob.size, hash: await hashBlob(blob), density };
+}
+
+/**
+ * Manifest entry for one region. `files` are its exported files, largest first; `scaleX`/`scaleY` map the
+ * region's coordinates to source image pixels.
+ */
+export async function manifestAsset(
+  region: CropRegion,
+  name: string,
+  files: ExportedFile[],
+  scaleX: number,
+  scaleY: number,
+): Promise<ManifestAsset> {
+  const variants: ManifestFile[] = [];
+  for (const file of files) variants.push(await manifestFile(file));
+  return {
+    id: region.id,
+    name,
+    label: region.label,
+    type: region.type,
+    source: manifestSource(region, scaleX, scaleY),
+    ...variants[0],
+    variants,
+  };
+}
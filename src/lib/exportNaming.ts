@@ -0,0 +1,138 @@
+import { CropRegion } from "@/types/crop";
+import { ExportSettings, FolderRule } from "@/types/export";
+import { hashBlob } from "@/lib/exportManifest";
+
+/** Tokens available in filename templates and folder rules; a spec after a colon pads numbers or shortens text */
+export const NAME_TOKENS = [
+  { token: "{name}", description: "Filename or label, else crop-N" },
+  { token: "{project}", description: "Source image name" },
+  { token: "{index:03}", description: "Position in the export, zero-padded" },
+  { token: "{type}", description: "Detected type (photo, icon, ...)" },
+  { token: "{label}", description: "Region label" },
+  { token: "{w}x{h}", description: "Pixel size of the largest file" },
+  { token: "{hash:8}", description: "Start of the SHA-256 of the largest file" },
+] as const;
+
+export interface NameValues {
+  name: string;
+  project: string;
+  index: number;
+  type: string;
+  label: string;
+  w: number;
+  h: number;
+  hash: string;
+}
+
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+// Characters that aren't allowed in filenames on at least one common system
+const INVALID_CHARS = /[\\:*?"<>|]/g;
+
+/**
+ * The name a region had before templates: its filename, label or position, without an image extension
+ */
+export function regionBaseName(region: CropRegion, index: number): string {
+  const baseName = region.filename || region.label || `crop-${index + 1}`;
+  return baseName.replace(/\.(png|jpg|jpeg|webp|avif|jxl)$/i, "");
+}
+
+/**
+ * Tokens in a template that aren't known, e.g. a typo like {lable}
+ */
+export function unknownNameTokens(template: string): string[] {
+  const known = new Set(["name", "project", "index", "type", "label", "w", "h", "hash"]);
+  return [...template.matchAll(TOKEN_PATTERN)].filter(([, token]) => !known.has(token)).map(([match]) => match);
+}
+
+/**
+ * Fills in a template. Numbers are zero-padded to the spec width ({index:03}), text is cut to the spec
+ * length ({hash:8}); unknown tokens are left as they are.
+ */
+export function renderNameTemplate(template: string, values: NameValues): string {
+  return template.replace(TOKEN_PATTERN, (match, token: string, spec?: string) => {
+    if (!(token in values)) return match;
+    const value = values[token as keyof NameValues];
+    if (!spec) return String(value);
+    const size = Number(spec);
+    return typeof value === "number" ? String(value).padStart(size, "0") : value.slice(0, size);
+  });
+}
+
+/**
+ * Makes a relative path safe for ZIP entries: invalid characters become "-", and empty, "." and ".."
+ * segments are dropped
+ */
+export function sanitizePath(path: string): string {
+  return path
+    .split("/")
+    .map((segment) => segment.replace(INVALID_CHARS, "-").trim())
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/");
+}
+
+/**
+ * Folder of the first rule that matches the region's type or one of its tags, or "" when none does
+ */
+export function matchFolderRule(region: CropRegion, rules: FolderRule[]): string {
+  const rule = rules.find((rule) =>
+    rule.match === "type"
+      ? region.type === rule.value
+      : region.tags?.some((tag) => tag.toLowerCase() === rule.value.trim().toLowerCase()),
+  );
+  return rule?.folder ?? "";
+}
+
+/**
+ * Whether the template or any folder rule uses a token
+ */
+function usesToken(naming: ExportSettings["naming"], token: keyof NameValues): boolean {
+  return [naming.template, ...naming.folders.map((rule) => rule.folder)].some((template) =>
+    [...template.matchAll(TOKEN_PATTERN)].some(([, name]) => name === token),
+  );
+}
+
+/**
+ * Values for a region's tokens, once its largest file is encoded. The file is only hashed when `naming`
+ * uses {hash}.
+ */
+export async function nameValues(
+  region: CropRegion,
+  index: number,
+  project: string,
+  largest: { blob: Blob; width: number; height: number },
+  naming: ExportSettings["naming"],
+): Promise<NameValues> {
+  return {
+    name: regionBaseName(region, index),
+    project,
+    index: index + 1,
+    type: region.type ?? "other",
+    label: region.label || `crop-${index + 1}`,
+    w: largest.width,
+    h: largest.height,
+    hash: usesToken(naming, "hash") ? await hashBlob(largest.blob) : "",
+  };
+}
+
+/**
+ * Path (without extension) of a region's files: its folder rule followed by the filename template. Falls
+ * back to the region's plain name when the template renders to nothing.
+ */
+export function regionExportPath(region: CropRegion, values: NameValues, naming: ExportSettings["naming"]): string {
+  const folder = sanitizePath(renderNameTemplate(matchFolderRule(region, naming.folders), values));
+  const name = sanitizePath(renderNameTemplate(naming.template, values)) || sanitizePath(values.name) || "crop";
+  return folder ? `${folder}/${name}` : name;
+}
+
+/**
+ * Resolves collisions deterministically: the first region keeps its path and later ones get -2, -3, ...
+ * until none of their files is taken. Paths are compared case-insensitively, as on most file systems.
+ * Claims the files of the returned path in `used`.
+ */
+export function claimExportPath(path: string, fileNames: (path: string) => string[], used: Set<string>): string {
+  const taken = (candidate: string) => fileNames(candidate).some((file) => used.has(file.toLowerCase()));
+  let candidate = path;
+  for (let n = 2; taken(candidate); n++) candidate = `${path}-${n}`;
+  fileNames(candidate).forEach((file) => used.add(file.toLowerCase()));
+  return candidate;
+}
@@ -0,0 +1,35 @@
+import { ExportPreset, ExportSettings } from "@/types/export";
+import { DEFAULT_EXPORT_SETTINGS } from "@/lib/exportVariants";
+
+// Presets are shared by all projects in this browser
+const PRESETS_KEY = "image-slicer:export-presets";
+
+/**
+ * Saved presets, by name. Unreadable storage is treated as empty.
+ */
+export function listExportPresets(): ExportPreset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) ?? "[]") as ExportPreset[];
+    // Presets saved by older versions lack newer settings
+    return stored.map((preset) => ({ ...preset, settings: { ...DEFAULT_EXPORT_SETTINGS, ...preset.settings } }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saves a preset, replacing one with the same name
+ */
+export function saveExportPreset(name: string, settings: ExportSettings): ExportPreset[] {
+  const presets = [...listExportPresets().filter((preset) => preset.name !== name), { name, settings }].sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+export function deleteExportPreset(name: string): ExportPreset[] {
+  const presets = listExportPresets().filter((preset) => preset.name !== name);
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+}
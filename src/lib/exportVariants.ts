@@ -0,0 +1,146 @@
+import { EncoderSettings, ExportSettings, RegionExportOverrides, Resampling, VariantMode } from "@/types/export";
+
+export const DEFAULT_ENCODER_SETTINGS: EncoderSettings = {
+  jpeg: { quality: 85 },
+  webp: { quality: 85 },
+  avif: { quality: 60, effort: 4 },
+  jxl: { quality: 80, effort: 7 },
+  png: { optimize: false, effort: 2, colors: 0 },
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "auto",
+  encoders: DEFAULT_ENCODER_SETTINGS,
+  variantMode: "native",
+  densities: [1, 2, 3],
+  widths: [320, 640, 1280],
+  densityPattern: "{name}@{density}x",
+  widthPattern: "{name}-{width}w",
+  maxDimension: 0,
+  resampling: "high",
+  maxKilobytes: 0,
+  template: { include: true, maxHeight: 4000, quality: 92 },
+  naming: { template: "{name}", folders: [] },
+  dedupe: { enabled: false, threshold: 6 },
+  sprite: { padding: 2, powerOfTwo: false, format: "png", prefix: "sprite", svg: true },
+  vectorize: { enabled: false, fidelity: 60, output: "beside" },
+  manifest: { include: true, typescript: false },
+};
+
+export const RESAMPLING_OPTIONS: { value: Resampling; label: string }[] = [
+  { value: "high", label: "High quality" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Fast" },
+  { value: "nearest", label: "Nearest neighbor (pixel art)" },
+];
+
+/** Output format choices, in menu order */
+export const FORMAT_OPTIONS: { value: ExportSettings["format"]; label: string }[] = [
+  { value: "auto", label: "Auto (PNG / WebP)" },
+  { value: "png", label: "PNG" },
+  { value: "jpeg", label: "JPEG" },
+  { value: "webp", label: "WebP" },
+  { value: "avif", label: "AVIF" },
+  { value: "jxl", label: "JPEG XL" },
+];
+
+/** Placeholder each variant mode's pattern must contain, so the variants get distinct filenames */
+export const VARIANT_TOKENS: Record<Exclude<VariantMode, "native">, string> = {
+  density: "{density}",
+  width: "{width}",
+};
+
+export interface ExportVariant {
+  /** Filename without extension */
+  name: string;
+  /** Size relative to the native crop, at most 1 */
+  scale: number;
+  /** Pixel density the file is meant for, in density mode */
+  density?: number;
+}
+
+/**
+ * Replaces {token} placeholders; unknown tokens are left as they are
+ */
+export function applyNamePattern(pattern: string, values: Record<string, string | number>): string {
+  return pattern.replace(/\{(\w+)\}/g, (match, token: string) => (token in values ? String(values[token]) : match));
+}
+
+export function isValidNamePattern(pattern: string, mode: Exclude<VariantMode, "native">): boolean {
+  return pattern.includes("{name}") && pattern.includes(VARIANT_TOKENS[mode]);
+}
+
+/**
+ * Parses a list like "1, 2, 3" or "320 640" into distinct positive numbers, ascending
+ */
+export function parseNumberList(text: string): number[] {
+  const numbers = text
+    .split(/[\s,;]+/)
+    .map((part) => Number(part.replace(/[xw]$/i, "")))
+    .filter((value) => Number.isFinite(value) && value > 0);
+  return [...new Set(numbers)].sort((a, b) => a - b);
+}
+
+/**
+ * The files to export for a region named `name` whose native crop is `nativeWidth` px wide.
+ * Crops are never upscaled: the highest density is the native size, and larger widths are dropped.
+ */
+export function exportVariants(settings: ExportSettings, name: string, nativeWidth: number): ExportVariant[] {
+  if (settings.variantMode === "density") {
+    const densities = [...new Set(settings.densities.filter((d) => d > 0))].sort((a, b) => b - a);
+    if (densities.length === 0) return [{ name, scale: 1 }];
+    const pattern = isValidNamePattern(settings.densityPattern, "density")
+      ? settings.densityPattern
+      : DEFAULT_EXPORT_SETTINGS.densityPattern;
+    return densities.map((density) => ({
+      name: applyNamePattern(pattern, { name, density }),
+      scale: density / densities[0],
+      density,
+    }));
+  }
+
+  if (settings.variantMode === "width") {
+    const native = Math.round(nativeWidth);
+    const widths = [...new Set(settings.widths.map(Math.round).filter((w) => w > 0 && w <= native))].sort(
+      (a, b) => b - a,
+    );
+    const pattern = isValidNamePattern(settings.widthPattern, "width")
+      ? settings.widthPattern
+      : DEFAULT_EXPORT_SETTINGS.widthPattern;
+    // A crop narrower than every breakpoint is still exported once, at its own width
+    return (widths.length > 0 ? widths : [native]).map((width) => ({
+      name: applyNamePattern(pattern, { name, width }),
+      scale: width / native,
+    }));
+  }
+
+  return [{ name, scale: 1 }];
+}
+
+export function hasExportOverrides(overrides: RegionExportOverrides | undefined): boolean {
+  return !!overrides && Object.values(overrides).some((value) => value !== undefined);
+}
+
+/**
+ * The export settings for one region, with its overrides applied
+ */
+export function resolveExportSettings(settings: ExportSettings, overrides: RegionExportOverrides | undefined): ExportSettings {
+  if (!hasExportOverrides(overrides)) return settings;
+  const { format, quality, maxDimension, resampling, maxKilobytes, fidelity } = overrides;
+  const encoders = { ...settings.encoders };
+  if (quality !== undefined) {
+    encoders.jpeg = { ...encoders.jpeg, quality };
+    encoders.webp = { ...encoders.webp, quality };
+    encoders.avif = { ...encoders.avif, quality };
+    encoders.jxl = { ...encoders.jxl, quality };
+  }
+  return {
+    ...settings,
+    format: format ?? settings.format,
+    encoders,
+    maxDimension: maxDimension ?? settings.maxDimension,
+    resampling: resampling ?? settings.resampling,
+    maxKilobytes: maxKilobytes ?? settings.maxKilobytes,
+    vectorize: { ...settings.vectorize, fidelity: fidelity ?? settings.vectorize.fidelity },
+  };
+}
@@ -1,12 +1,35 @@
 import { CropRegion } from "@/types/crop";
+import { SourceImage } from "@/types/batch";
+import { applyRegionMask } from "@/lib/regionShapes";
+import { applyPostProcess, needsAlpha } from "@/lib/postProcess";
+import { renderRegionUpright } from "@/lib/regionTransform";
+import {
+  DEFAULT_ENCODER_SETTINGS,
+  DEFAULT_EXPORT_SETTINGS,
+  exportVariants,
+  resolveExportSettings,
+} from "@/lib/exportVariants";
+import { encodeCanvas } from "@/lib/wasmEncoder";
+import { generateAssetModule, manifestAsset, manifestFile, manifestSource } from "@/lib/exportManifest";
+import { findDuplicateGroups } from "@/lib/duplicates";
+import { claimExportPath, nameValues, regionBaseName, regionExportPath } from "@/lib/exportNaming";
+import { VectorizeResult, canVectorize, vectorizeCanvas } from "@/lib/vectorize";
+import { packSprites, spriteAtlas, spriteCss, spriteNames, spriteSymbols } from "@/lib/spriteSheet";
+import { EncoderSettings, ExportManifest, ExportSettings, ImageFormat, Resampling } from "@/types/export";
 import JSZip from "jszip";
 
-export type ImageFormat = "png" | "jpeg" | "webp";
+export type { ImageFormat };
 
 export interface OptimizationResult {
   blob: Blob;
   format: ImageFormat;
   extension: string;
+  width: number;
+  height: number;
+  /** Quality used (0-100); lossless PNG has none */
+  quality?: number;
+  /** Set when a file-size budget applied and even the smallest encoding didn't fit */
+  overBudget?: boolean;
 }
 
 export async function fileToBase64(file: File): Promise<string> {
@@ -28,6 +51,28 @@ export async function loadImage(src: string): Promise<HTMLImageElement> {
   });
 }
 
+/**
+ * Reads a file into a queue entry, including its natural dimensions
+ */
+export async function createSourceImage(
+  file: File,
+  init: Partial<Pick<SourceImage, "id" | "regions" | "status">> = {},
+): Promise<SourceImage> {
+  const src = await fileToBase64(file);
+  const img = await loadImage(src);
+  return {
+    id: init.id ?? `image-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    file,
+    src,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    regions: init.regions ?? [],
+    status: init.status ?? "pending",
+    progress: 0,
+    step: "",
+  };
+}
+
 /**
  * Analyzes image data to determine if it has transparency
  */
@@ -56,58 +101,105 @@ function detectOptimalFormat(ctx: CanvasRenderingContext2D, width: number, heigh
   return "webp";
 }
 
+// File-size budgets lower the quality down to this before crops are scaled down
+const MIN_BUDGET_QUALITY = 30;
+const MAX_DOWNSCALE_STEPS = 8;
+// Crops are not shrunk below this many pixels on their short side to meet a budget
+const MIN_BUDGET_SIZE = 16;
+
+const EXTENSIONS: Record<ImageFormat, string> = { png: "png", jpeg: "jpg", webp: "webp", avif: "avif", jxl: "jxl" };
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to create blob"))), mimeType, quality);
+  });
+}
+
 /**
- * Converts canvas to optimized blob with smart format selection
+ * Converts canvas to optimized blob with smart format selection.
+ * With `requireAlpha` (masked shapes) JPEG is never used, since it would fill the transparent area.
+ * AVIF and JPEG XL go through WASM encoders; if those fail the browser's own encoder is tried, then WebP.
  */
 async function canvasToOptimizedBlob(
   canvas: HTMLCanvasElement,
   ctx: CanvasRenderingContext2D,
   forceFormat?: ImageFormat,
   customQuality?: number,
+  requireAlpha = false,
+  encoders: EncoderSettings = DEFAULT_ENCODER_SETTINGS,
 ): Promise<OptimizationResult> {
-  const format = forceFormat || detectOptimalFormat(ctx, canvas.width, canvas.height);
+  let format = forceFormat || detectOptimalFormat(ctx, canvas.width, canvas.height);
+  if (requireAlpha && format === "jpeg") format = "png";
+
+  // customQuality (0-1) overrides the format's configured quality
+  const settings: EncoderSettings =
+    customQuality === undefined
+      ? encoders
+      : {
+          ...encoders,
+          avif: { ...encoders.avif, quality: Math.round(customQuality * 100) },
+          jxl: { ...encoders.jxl, quality: Math.round(customQuality * 100) },
+        };
+  const result = (blob: Blob, format: ImageFormat): OptimizationResult => ({
+    blob,
+    format,
+    extension: EXTENSIONS[format],
+    width: canvas.width,
+    height: canvas.height,
+    quality: format === "png" ? undefined : customQuality !== undefined ? Math.round(customQuality * 100) : settings[format].quality,
+  });
 
-  // Quality settings: customQuality or default (0.85 for crops)
-  const quality = format === "png" ? undefined : (customQuality ?? 0.85);
-  const mimeType = `image/${format}`;
+  if (format === "avif" || format === "jxl") {
+    try {
+      return result(await encodeCanvas(format, ctx, settings), format);
+    } catch (error) {
+      console.warn(`WASM ${format} encoder failed, falling back:`, error);
+      const native = await canvasToBlob(canvas, `image/${format}`, settings[format].quality / 100);
+      // Browsers silently encode PNG for types they don't support
+      if (native.type === `image/${format}`) return result(native, format);
+      format = "webp";
+    }
+  }
 
-  return new Promise((resolve, reject) => {
-    canvas.toBlob(
-      (blob) => {
-        if (blob) {
-          resolve({
-            blob,
-            format,
-            extension: format === "jpeg" ? "jpg" : format,
-          });
-        } else {
-          reject(new Error("Failed to create blob"));
-        }
-      },
-      mimeType,
-      quality,
-    );
-  });
+  if (format === "png") {
+    if (encoders.png.optimize) {
+      try {
+        return result(await encodeCanvas("png", ctx, encoders), "png");
+      } catch (error) {
+        console.warn("PNG optimizer failed, using the browser encoder:", error);
+      }
+    }
+    return result(await canvasToBlob(canvas, "image/png"), "png");
+  }
+
+  // Quality settings: customQuality or the configured default (0.85 for crops)
+  const quality = customQuality ?? settings[format].quality / 100;
+  return result(await canvasToBlob(canvas, `image/${format}`, quality), format);
 }
 
 /**
  * Optimizes the template/original image with high-quality compression
  */
-async function optimizeTemplate(originalFile: File, forceFormat?: ImageFormat): Promise<OptimizationResult> {
+async function optimizeTemplate(
+  originalFile: File,
+  forceFormat?: ImageFormat,
+  encoders?: EncoderSettings,
+  template: ExportSettings["template"] = DEFAULT_EXPORT_SETTINGS.template,
+): Promise<OptimizationResult> {
   const imageSrc = await fileToBase64(originalFile);
   const img = await loadImage(imageSrc);
 
-  // Maximum height constraint to avoid platform/browser limitations
-  const MAX_HEIGHT = 4000;
+  // Maximum height constraint to avoid platform/browser limitations (0 = none)
+  const maxHeight = template.maxHeight;
 
   let targetWidth = img.naturalWidth;
   let targetHeight = img.naturalHeight;
 
   // Scale down if height exceeds maximum, maintaining aspect ratio
-  if (targetHeight > MAX_HEIGHT) {
-    const scale = MAX_HEIGHT / targetHeight;
+  if (maxHeight > 0 && targetHeight > maxHeight) {
+    const scale = maxHeight / targetHeight;
     targetWidth = Math.round(targetWidth * scale);
-    targetHeight = MAX_HEIGHT;
+    targetHeight = maxHeight;
   }
 
   const canvas = document.createElement("canvas");
@@ -121,30 +213,75 @@ async function optimizeTemplate(originalFile: File, forceFormat?: ImageFormat):
   ctx.imageSmoothingQuality = "high";
   ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
 
-  // Use higher quality (0.92) for template to preserve source quality
-  return canvasToOptimizedBlob(canvas, ctx, forceFormat, 0.92);
+  // Templates default to a higher quality (0.92) than crops to preserve source quality
+  return canvasToOptimizedBlob(canvas, ctx, forceFormat, template.quality / 100, false, encoders);
 }
 
-export async function cropImage(
+/**
+ * Renders a region (upright, masked and post-processed), scaling its coordinates from display to original and then down
+ * to the settings' max dimension
+ */
+async function renderCrop(
   imageSrc: string,
   region: CropRegion,
   originalWidth: number,
   originalHeight: number,
   displayWidth: number,
   displayHeight: number,
-  forceFormat?: ImageFormat,
-): Promise<OptimizationResult> {
+  settings: ExportSettings,
+): Promise<{ canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D }> {
   const img = await loadImage(imageSrc);
 
   // Scale coordinates from display to original
   const scaleX = originalWidth / displayWidth;
   const scaleY = originalHeight / displayHeight;
 
-  const x = Math.round(region.x * scaleX);
-  const y = Math.round(region.y * scaleY);
-  const width = Math.round(region.width * scaleX);
-  const height = Math.round(region.height * scaleY);
+  // Rotated and perspective regions come out upright
+  const canvas = renderRegionUpright(img, {
+    ...region,
+    x: region.x * scaleX,
+    y: region.y * scaleY,
+    width: region.width * scaleX,
+    height: region.height * scaleY,
+  });
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  applyRegionMask(ctx, region);
+  const processed = applyPostProcess({ canvas, ctx }, region.postProcess);
+
+  const longestSide = Math.max(processed.canvas.width, processed.canvas.height);
+  const scale = settings.maxDimension > 0 ? Math.min(1, settings.maxDimension / longestSide) : 1;
+  return scaleCanvas(processed, scale, settings.resampling);
+}
+
+/**
+ * Downscaled copy of a rendered crop; `scale` 1 returns the crop itself
+ */
+function scaleCanvas(
+  source: { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D },
+  scale: number,
+  resampling: Resampling,
+): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  if (scale === 1) return source;
+  const width = Math.max(1, Math.round(source.canvas.width * scale));
+  const height = Math.max(1, Math.round(source.canvas.height * scale));
+
+  // A single large downscale skips pixels even with smoothing; halve in steps for the high quality setting
+  let current = source.canvas;
+  while (resampling === "high" && current.width / 2 > width && current.height / 2 > height) {
+    current = drawScaled(current, Math.round(current.width / 2), Math.round(current.height / 2), resampling).canvas;
+  }
+  return drawScaled(current, width, height, resampling);
+}
 
+function drawScaled(
+  source: HTMLCanvasElement,
+  width: number,
+  height: number,
+  resampling: Resampling,
+): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
   const canvas = document.createElement("canvas");
   canvas.width = width;
   canvas.height = height;
@@ -152,13 +289,182 @@ export async function cropImage(
   const ctx = canvas.getContext("2d");
   if (!ctx) throw new Error("Could not get canvas context");
 
-  // Enable high-quality image rendering
-  ctx.imageSmoothingEnabled = true;
-  ctx.imageSmoothingQuality = "high";
+  ctx.imageSmoothingEnabled = resampling !== "nearest";
+  if (resampling !== "nearest") ctx.imageSmoothingQuality = resampling;
+  ctx.drawImage(source, 0, 0, width, height);
+  return { canvas, ctx };
+}
+
+/**
+ * Encodes a rendered crop. With a file-size budget the quality is binary-searched down to
+ * MIN_BUDGET_QUALITY, and if that isn't enough the crop is scaled down until it fits. The result is the
+ * highest quality at the largest size that fits, or the smallest attempt (marked `overBudget`).
+ */
+async function encodeWithinBudget(
+  crop: { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D },
+  forceFormat: ImageFormat | undefined,
+  requireAlpha: boolean,
+  settings: ExportSettings,
+): Promise<OptimizationResult> {
+  const first = await canvasToOptimizedBlob(crop.canvas, crop.ctx, forceFormat, undefined, requireAlpha, settings.encoders);
+  const budget = settings.maxKilobytes * 1024;
+  if (!budget || first.blob.size <= budget) return first;
+
+  const lossy = first.quality !== undefined;
+  const encode = (target: { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D }, quality?: number) =>
+    canvasToOptimizedBlob(
+      target.canvas,
+      target.ctx,
+      first.format,
+      quality === undefined ? undefined : quality / 100,
+      requireAlpha,
+      settings.encoders,
+    );
 
-  ctx.drawImage(img, x, y, width, height, 0, 0, width, height);
+  let target = crop;
+  let smallest = first;
+  for (let step = 0; step <= MAX_DOWNSCALE_STEPS; step++) {
+    if (step > 0) {
+      // File size roughly follows the pixel count; aim a little under the budget
+      const shrink = Math.sqrt(budget / smallest.blob.size) * 0.9;
+      const scale = (target.canvas.width * shrink) / crop.canvas.width;
+      if (Math.min(crop.canvas.width, crop.canvas.height) * scale < MIN_BUDGET_SIZE) break;
+      target = scaleCanvas(crop, scale, settings.resampling);
+    }
+
+    if (!lossy) {
+      const result = step === 0 ? first : await encode(target);
+      if (result.blob.size <= budget) return result;
+      smallest = result;
+      continue;
+    }
+
+    const lowest = Math.min(MIN_BUDGET_QUALITY, first.quality);
+    const floor = await encode(target, lowest);
+    if (floor.blob.size > budget) {
+      smallest = floor;
+      continue;
+    }
+    // Highest quality that still fits
+    let best = floor;
+    let low = lowest;
+    let high = step === 0 ? first.quality - 1 : first.quality;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      const result = await encode(target, mid);
+      if (result.blob.size <= budget) {
+        best = result;
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return best;
+  }
 
-  return canvasToOptimizedBlob(canvas, ctx, forceFormat);
+  return { ...smallest, overBudget: true };
+}
+
+export async function cropImage(
+  imageSrc: string,
+  region: CropRegion,
+  originalWidth: number,
+  originalHeight: number,
+  displayWidth: number,
+  displayHeight: number,
+  forceFormat?: ImageFormat,
+  exportSettings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+): Promise<OptimizationResult> {
+  const settings = resolveExportSettings(exportSettings, region.exportOverrides);
+  const crop = await renderCrop(imageSrc, region, originalWidth, originalHeight, displayWidth, displayHeight, settings);
+  const format = forceFormat ?? (settings.format === "auto" ? undefined : settings.format);
+  return encodeWithinBudget(crop, format, needsAlpha(region), settings);
+}
+
+/**
+ * Renders a region like cropImage and returns the pixels before encoding along with the encoded result,
+ * for comparing the two. `settings` are used as given; region overrides are not applied.
+ */
+export async function cropImageForComparison(
+  imageSrc: string,
+  region: CropRegion,
+  originalWidth: number,
+  originalHeight: number,
+  displayWidth: number,
+  displayHeight: number,
+  settings: ExportSettings,
+): Promise<{ original: HTMLCanvasElement; encoded: OptimizationResult }> {
+  const crop = await renderCrop(imageSrc, region, originalWidth, originalHeight, displayWidth, displayHeight, settings);
+  const format = settings.format === "auto" ? undefined : settings.format;
+  return { original: crop.canvas, encoded: await encodeWithinBudget(crop, format, needsAlpha(region), settings) };
+}
+
+/**
+ * Traces a region, rendered as it would be exported, into an SVG. `fidelity` defaults to the region's
+ * export setting. Also returns the rendered pixels, for previews.
+ */
+export async function vectorizeRegion(
+  imageSrc: string,
+  region: CropRegion,
+  originalWidth: number,
+  originalHeight: number,
+  displayWidth: number,
+  displayHeight: number,
+  exportSettings: ExportSettings,
+  fidelity?: number,
+): Promise<{ crop: HTMLCanvasElement; vector: VectorizeResult }> {
+  const settings = resolveExportSettings(exportSettings, region.exportOverrides);
+  const crop = await renderCrop(imageSrc, region, originalWidth, originalHeight, displayWidth, displayHeight, settings);
+  return { crop: crop.canvas, vector: vectorizeCanvas(crop.canvas, fidelity ?? settings.vectorize.fidelity) };
+}
+
+/**
+ * Picks the base name of a region's files once the largest one is encoded; `fileNames` lists the files
+ * (with extension) a base name would produce
+ */
+export type VariantNamer = (largest: OptimizationResult, fileNames: (name: string) => string[]) => Promise<string>;
+
+/**
+ * Crops a region into every size variant of the export settings (with the region's overrides), named after
+ * `name`. All variants share the format chosen for the largest one, so a srcset never mixes formats.
+ */
+export async function cropImageVariants(
+  imageSrc: string,
+  region: CropRegion,
+  name: string | VariantNamer,
+  exportSettings: ExportSettings,
+  originalWidth: number,
+  originalHeight: number,
+  displayWidth: number,
+  displayHeight: number,
+): Promise<(OptimizationResult & { name: string; density?: number })[]> {
+  const settings = resolveExportSettings(exportSettings, region.exportOverrides);
+  const crop = await renderCrop(imageSrc, region, originalWidth, originalHeight, displayWidth, displayHeight, settings);
+  const variants = exportVariants(settings, "", crop.canvas.width);
+
+  const results: OptimizationResult[] = [];
+  let format = settings.format === "auto" ? undefined : settings.format;
+  for (const variant of variants) {
+    const scaled = scaleCanvas(crop, variant.scale, settings.resampling);
+    const result = await encodeWithinBudget(scaled, format, needsAlpha(region), settings);
+    format = result.format;
+    results.push(result);
+  }
+
+  // Variant names only depend on the base name, so they can be filled in now that the files exist
+  const named = (base: string) => exportVariants(settings, base, crop.canvas.width).map((variant) => variant.name);
+  const baseName =
+    typeof name === "string"
+      ? name
+      : await name(results[0], (base) => named(base).map((file, i) => `${file}.${results[i].extension}`));
+  const names = named(baseName);
+  return results.map((result, i) => ({ ...result, name: names[i], density: variants[i].density }));
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 }
 
 export async function downloadBlob(blob: Blob, filename: string) {
@@ -172,7 +478,19 @@ export async function downloadBlob(blob: Blob, filename: string) {
   URL.revokeObjectURL(url);
 }
 
-export async function downloadAllAsZip(
+export interface ZipExportSummary {
+  /** Files that didn't fit the file-size budget even at the lowest quality and size tried */
+  overBudget: string[];
+  /** Regions whose path was already taken, with the path they were written to instead */
+  renamed: { from: string; to: string }[];
+}
+
+/**
+ * Adds the optimized template, all cropped regions of one image and their manifest to a ZIP (or a folder
+ * inside it). `project` fills the {project} filename token.
+ */
+async function addImageToZip(
+  zip: JSZip,
   imageSrc: string,
   originalFile: File,
   regions: CropRegion[],
@@ -180,24 +498,250 @@ export async function downloadAllAsZip(
   originalHeight: number,
   displayWidth: number,
   displayHeight: number,
-): Promise<void> {
-  const zip = new JSZip();
+  settings: ExportSettings,
+  project: string,
+  allRegions: CropRegion[],
+): Promise<ZipExportSummary> {
+  const summary: ZipExportSummary = { overBudget: [], renamed: [] };
+  const manifest: ExportManifest = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    source: { file: originalFile.name, width: originalWidth, height: originalHeight },
+    assets: [],
+  };
+  // Lower-cased paths already in the ZIP; JSZip would silently replace a file with the same name
+  const used = new Set(["manifest.json", "assets.ts"]);
 
   // Optimize the template file with high-quality compression
-  const templateResult = await optimizeTemplate(originalFile);
-  zip.file(`template.${templateResult.extension}`, templateResult.blob);
+  if (settings.template.include) {
+    const templateResult = await optimizeTemplate(originalFile, undefined, settings.encoders, settings.template);
+    manifest.template = `template.${templateResult.extension}`;
+    zip.file(manifest.template, templateResult.blob);
+    used.add(manifest.template);
+  }
+
+  // Duplicates are left out; their canonical region lists where they were
+  const scaleX = originalWidth / displayWidth;
+  const scaleY = originalHeight / displayHeight;
+  const instances = new Map<string, CropRegion[]>();
+  const merged = new Set<string>();
+  if (settings.dedupe.enabled) {
+    const groups = await findDuplicateGroups(
+      imageSrc,
+      regions,
+      originalWidth,
+      originalHeight,
+      displayWidth,
+      displayHeight,
+      settings.dedupe.threshold,
+    );
+    for (const group of groups) {
+      instances.set(group.canonicalId, regions.filter((region) => group.regionIds.includes(region.id)));
+      group.regionIds.slice(1).forEach((id) => merged.add(id));
+    }
+  }
 
   // Add all cropped regions with optimized format selection
-  for (let i = 0; i < regions.length; i++) {
-    const region = regions[i];
-    const result = await cropImage(imageSrc, region, originalWidth, originalHeight, displayWidth, displayHeight);
-    const baseName = region.filename || region.label || `crop-${i + 1}`;
-    // Remove any existing extension and add the optimized one
-    const cleanName = baseName.replace(/\.(png|jpg|jpeg|webp)$/i, "");
-    zip.file(`${cleanName}.${result.extension}`, result.blob);
+  for (const region of regions) {
+    if (merged.has(region.id)) continue;
+    // {index} counts all of the image's regions, so a filter or selection doesn't change a region's name
+    const index = allRegions.findIndex((other) => other.id === region.id);
+    const traced =
+      settings.vectorize.enabled && canVectorize(region)
+        ? await vectorizeRegion(imageSrc, region, originalWidth, originalHeight, displayWidth, displayHeight, settings)
+        : null;
+    const vectorOnly = !!traced && settings.vectorize.output === "instead";
+    // The raster files are still encoded without being written, as names can depend on them ({hash}, {w}x{h})
+    const claimed = (fileNames: (name: string) => string[]) => (base: string) =>
+      traced ? [...(vectorOnly ? [] : fileNames(base)), `${base}.svg`] : fileNames(base);
+
+    let name = "";
+    const results = await cropImageVariants(
+      imageSrc,
+      region,
+      async (largest, fileNames) => {
+        const values = await nameValues(region, index, project, largest, settings.naming);
+        const path = regionExportPath(region, values, settings.naming);
+        name = claimExportPath(path, claimed(fileNames), used);
+        if (name !== path) summary.renamed.push({ from: path, to: name });
+        return name;
+      },
+      settings,
+      originalWidth,
+      originalHeight,
+      displayWidth,
+      displayHeight,
+    );
+    const raster = results.map((result) => ({ ...result, file: `${result.name}.${result.extension}` }));
+    const svg = traced && {
+      file: `${name}.svg`,
+      blob: new Blob([traced.vector.svg], { type: "image/svg+xml" }),
+      width: traced.crop.width,
+      height: traced.crop.height,
+      format: "svg" as const,
+    };
+    const files = svg && vectorOnly ? [svg] : raster;
+    for (const { file, blob } of svg && !vectorOnly ? [...files, svg] : files) zip.file(file, blob);
+    if (!vectorOnly) summary.overBudget.push(...raster.filter((file) => file.overBudget).map((file) => file.file));
+    if (settings.manifest.include) {
+      const asset = await manifestAsset(region, name, files, scaleX, scaleY);
+      if (svg && !vectorOnly) asset.vector = await manifestFile(svg);
+      asset.instances = instances.get(region.id)?.map((instance) => ({
+        id: instance.id,
+        label: instance.label,
+        source: manifestSource(instance, scaleX, scaleY),
+      }));
+      manifest.assets.push(asset);
+    }
   }
 
-  const zipBlob = await zip.generateAsync({ type: "blob" });
+  if (settings.manifest.include) {
+    zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+    if (settings.manifest.typescript) zip.file("assets.ts", generateAssetModule(manifest));
+  }
+  return summary;
+}
+
+export async function downloadAllAsZip(
+  imageSrc: string,
+  originalFile: File,
+  regions: CropRegion[],
+  originalWidth: number,
+  originalHeight: number,
+  displayWidth: number,
+  displayHeight: number,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+  allRegions: CropRegion[] = regions,
+): Promise<ZipExportSummary> {
+  const zip = new JSZip();
   const baseName = originalFile.name.replace(/\.[^/.]+$/, "");
+
+  const summary = await addImageToZip(
+    zip,
+    imageSrc,
+    originalFile,
+    regions,
+    originalWidth,
+    originalHeight,
+    displayWidth,
+    displayHeight,
+    settings,
+    baseName,
+    allRegions,
+  );
+
+  const zipBlob = await zip.generateAsync({ type: "blob" });
   downloadBlob(zipBlob, `${baseName}-cropped.zip`);
+  return summary;
+}
+
+/**
+ * Exports several source images into one ZIP with a folder per image. The first image names the project,
+ * as it does for saved projects.
+ */
+export async function downloadBatchAsZip(
+  images: SourceImage[],
+  zipName: string,
+  settings: ExportSettings = DEFAULT_EXPORT_SETTINGS,
+  include: (region: CropRegion) => boolean = () => true,
+): Promise<ZipExportSummary> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const summary: ZipExportSummary = { overBudget: [], renamed: [] };
+  const project = images[0]?.file.name.replace(/\.[^/.]+$/, "") ?? zipName;
+
+  for (const image of images) {
+    const regions = image.regions.filter(include);
+    if (regions.length === 0) continue;
+
+    // Two uploads can share a filename; keep their folders apart
+    const baseName = image.file.name.replace(/\.[^/.]+$/, "");
+    let folderName = baseName;
+    for (let n = 2; usedNames.has(folderName); n++) folderName = `${baseName}-${n}`;
+    usedNames.add(folderName);
+
+    const folder = zip.folder(folderName);
+    if (!folder) throw new Error(`Could not create folder ${folderName}`);
+    // Regions are stored in natural image coordinates
+    const { overBudget, renamed } = await addImageToZip(
+      folder,
+      image.src,
+      image.file,
+      regions,
+      image.width,
+      image.height,
+      image.width,
+      image.height,
+      settings,
+      project,
+      image.regions,
+    );
+    summary.overBudget.push(...overBudget.map((filename) => `${folderName}/${filename}`));
+    summary.renamed.push(
+      ...renamed.map(({ from, to }) => ({ from: `${folderName}/${from}`, to: `${folderName}/${to}` })),
+    );
+  }
+
+  const zipBlob = await zip.generateAsync({ type: "blob" });
+  downloadBlob(zipBlob, `${zipName}.zip`);
+  return summary;
+}
+
+/**
+ * Packs regions into one sprite image and downloads it in a ZIP with a CSS file of background-position
+ * classes, a TexturePacker JSON atlas and optionally an SVG <symbol> sheet. Returns the sheet size.
+ */
+export async function downloadSpriteSheet(
+  imageSrc: string,
+  regions: CropRegion[],
+  originalWidth: number,
+  originalHeight: number,
+  displayWidth: number,
+  displayHeight: number,
+  settings: ExportSettings,
+  zipName: string,
+): Promise<{ width: number; height: number }> {
+  const crops: HTMLCanvasElement[] = [];
+  for (const region of regions) {
+    const regionSettings = resolveExportSettings(settings, region.exportOverrides);
+    const crop = await renderCrop(
+      imageSrc,
+      region,
+      originalWidth,
+      originalHeight,
+      displayWidth,
+      displayHeight,
+      regionSettings,
+    );
+    crops.push(crop.canvas);
+  }
+
+  // The prefix ends up in class names and ids
+  const sprite = { ...settings.sprite, prefix: spriteNames([settings.sprite.prefix])[0] };
+  const sizes = crops.map(({ width, height }) => ({ width, height }));
+  const layout = packSprites(sizes, sprite.padding, sprite.powerOfTwo);
+  const canvas = document.createElement("canvas");
+  canvas.width = layout.width;
+  canvas.height = layout.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  crops.forEach((crop, i) => ctx.drawImage(crop, layout.rects[i].x, layout.rects[i].y));
+
+  const sheet = await canvasToOptimizedBlob(canvas, ctx, sprite.format, undefined, true, settings.encoders);
+  const image = `${sprite.prefix}.${sheet.extension}`;
+  const names = spriteNames(regions.map((region, i) => regionBaseName(region, i)));
+  const frames = layout.rects.map((rect, i) => ({ ...rect, name: names[i] }));
+
+  const zip = new JSZip();
+  zip.file(image, sheet.blob);
+  zip.file(`${sprite.prefix}.css`, spriteCss(frames, image, sprite));
+  zip.file(`${sprite.prefix}.json`, spriteAtlas(frames, image, layout));
+  if (sprite.svg) {
+    const symbols = frames.map((frame, i) => ({ ...frame, dataUrl: crops[i].toDataURL("image/png") }));
+    zip.file(`${sprite.prefix}.svg`, spriteSymbols(symbols, sprite));
+  }
+
+  const zipBlob = await zip.generateAsync({ type: "blob" });
+  downloadBlob(zipBlob, `${zipName}.zip`);
+  return { width: layout.width, height: layout.height };
 }
@@ -0,0 +1,334 @@
+import { CropRegion, DetectionResult, RegionType } from "@/types/crop";
+
+/**
+ * Offline detector that finds embedded images from pixel statistics alone.
+ *
+ * 1. Background segmentation: the dominant (quantized) colors of the page are treated as background
+ * 2. Edge density: Sobel edges mark content that sits on a background of the same color
+ * 3. Connected components: foreground cells are merged into candidate boxes
+ * 4. Texture variance and color diversity separate photos, icons and logos from text and buttons
+ *
+ * Runs on raw RGBA pixels so it can be used from a web worker.
+ */
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Messages exchanged with the local detector worker */
+export type LocalDetectorRequest = { width: number; height: number; buffer: ArrayBuffer };
+export type LocalDetectorResponse =
+  | { type: "progress"; progress: number; step: string }
+  | { type: "result"; result: DetectionResult }
+  | { type: "error"; message: string };
+
+// Side of the square analysis cells in pixels
+const CELL_SIZE = 4;
+// A quantized color covering this share of the page counts as background
+const BACKGROUND_COLOR_SHARE = 0.02;
+const MAX_BACKGROUND_COLORS = 12;
+// Sobel magnitude above which a pixel is an edge
+const EDGE_THRESHOLD = 60;
+// Share of non-background pixels for a cell to count as foreground
+const FOREGROUND_CELL_SHARE = 0.3;
+// Regions smaller than this share of the image width (or fewer pixels) are dropped
+const MIN_SIZE_SHARE = 0.015;
+const MIN_SIZE_PX = 12;
+// Distinct quantized colors above which a region is clearly photographic
+const PHOTO_COLOR_COUNT = 48;
+
+type Box = { x: number; y: number; width: number; height: number };
+
+function quantize(r: number, g: number, b: number): number {
+  return ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+}
+
+function iou(a: Box, b: Box): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+function contains(outer: Box, inner: Box): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+/**
+ * Finds the page background palette from a histogram of quantized colors
+ */
+function findBackgroundColors(colors: Uint16Array): Set<number> {
+  const histogram = new Uint32Array(4096);
+  for (let i = 0; i < colors.length; i++) histogram[colors[i]]++;
+
+  const minCount = colors.length * BACKGROUND_COLOR_SHARE;
+  const candidates: number[] = [];
+  for (let key = 0; key < histogram.length; key++) {
+    if (histogram[key] >= minCount) candidates.push(key);
+  }
+  candidates.sort((a, b) => histogram[b] - histogram[a]);
+  return new Set(candidates.slice(0, MAX_BACKGROUND_COLORS));
+}
+
+/**
+ * Marks pixels whose Sobel gradient magnitude exceeds EDGE_THRESHOLD
+ */
+function computeEdges(luma: Float32Array, width: number, height: number): Uint8Array {
+  const edges = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        luma[i - width + 1] + 2 * luma[i + 1] + luma[i + width + 1] - luma[i - width - 1] - 2 * luma[i - 1] - luma[i + width - 1];
+      const gy =
+        luma[i + width - 1] + 2 * luma[i + width] + luma[i + width + 1] - luma[i - width - 1] - 2 * luma[i - width] - luma[i - width + 1];
+      if (Math.abs(gx) + Math.abs(gy) > EDGE_THRESHOLD) edges[i] = 1;
+    }
+  }
+  return edges;
+}
+
+/**
+ * Labels 8-connected foreground cells and returns the bounding box of each component (in cells)
+ */
+function findComponents(mask: Uint8Array, cols: number, rows: number): Box[] {
+  const visited = new Uint8Array(mask.length);
+  const boxes: Box[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    let minX = cols;
+    let minY = rows;
+    let maxX = 0;
+    let maxY = 0;
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const cx = cell % cols;
+      const cy = (cell - cx) / cols;
+      minX = Math.min(minX, cx);
+      minY = Math.min(minY, cy);
+      maxX = Math.max(maxX, cx);
+      maxY = Math.max(maxY, cy);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= cols || ny >= rows) continue;
+          const neighbor = ny * cols + nx;
+          if (mask[neighbor] && !visited[neighbor]) {
+            visited[neighbor] = 1;
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+
+    boxes.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 });
+  }
+
+  return boxes;
+}
+
+interface RegionStats {
+  fill: number;
+  edgeDensity: number;
+  lumaStdDev: number;
+  colorCount: number;
+}
+
+function measureRegion(
+  box: Box,
+  width: number,
+  luma: Float32Array,
+  colors: Uint16Array,
+  foreground: Uint8Array,
+  edges: Uint8Array,
+): RegionStats {
+  let count = 0;
+  let fg = 0;
+  let edgeCount = 0;
+  let sum = 0;
+  let sumSq = 0;
+  const distinct = new Set<number>();
+
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      const i = y * width + x;
+      count++;
+      fg += foreground[i];
+      edgeCount += edges[i];
+      sum += luma[i];
+      sumSq += luma[i] * luma[i];
+      distinct.add(colors[i]);
+    }
+  }
+
+  const mean = sum / count;
+  return {
+    fill: fg / count,
+    edgeDensity: edgeCount / count,
+    lumaStdDev: Math.sqrt(Math.max(0, sumSq / count - mean * mean)),
+    colorCount: distinct.size,
+  };
+}
+
+/**
+ * Shrinks a box to the foreground pixels it contains
+ */
+function tightenBox(box: Box, width: number, foreground: Uint8Array): Box | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = box.y; y < box.y + box.height; y++) {
+    for (let x = box.x; x < box.x + box.width; x++) {
+      if (!foreground[y * width + x]) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Scores how likely a candidate box is an embedded image (0-1) and guesses what it contains.
+ * Returns null for text, buttons and noise.
+ */
+function classifyRegion(box: Box, stats: RegionStats, pageWidth: number): { score: number; type: RegionType } | null {
+  const aspect = box.width / box.height;
+  const squarish = aspect > 0.8 && aspect < 1.25;
+
+  // Photos and illustrations: many colors and visible texture
+  if (stats.colorCount >= PHOTO_COLOR_COUNT && stats.lumaStdDev > 12) {
+    const score = Math.min(1, 0.6 + stats.colorCount / 600 + stats.fill * 0.2);
+    // Small square photos are usually profile pictures; smooth, flat-ish shading suggests a drawing
+    if (squarish && box.width < pageWidth * 0.15) return { score, type: "avatar" };
+    if (stats.edgeDensity < 0.08 && stats.colorCount < PHOTO_COLOR_COUNT * 2) return { score, type: "illustration" };
+    return { score, type: "photo" };
+  }
+
+  // Lines of text: wide, few colors, lots of thin strokes
+  if (aspect > 3.5 || aspect < 1 / 3.5) return null;
+  // Buttons and flat boxes: solid fill with very few colors
+  if (stats.colorCount < 6 && stats.edgeDensity < 0.05) return null;
+  // Text blocks: high edge density over a mostly flat, two-tone area
+  if (stats.colorCount < 16 && stats.edgeDensity > 0.35 && stats.fill < 0.5) return null;
+
+  // Icons and logos: compact, moderately colorful shapes; logos tend to be wider (word marks)
+  const compactness = 1 - Math.min(1, Math.abs(Math.log(aspect)) / Math.log(3.5));
+  const score = Math.min(0.85, 0.35 + compactness * 0.25 + Math.min(stats.colorCount, 32) / 128 + stats.fill * 0.1);
+  return { score, type: aspect > 1.6 ? "logo" : "icon" };
+}
+
+export function detectRegionsLocally(
+  pixels: PixelBuffer,
+  onProgress?: (progress: number, step: string) => void,
+): DetectionResult {
+  const { data, width, height } = pixels;
+  const total = width * height;
+
+  onProgress?.(5, "Segmenting background...");
+  const luma = new Float32Array(total);
+  const colors = new Uint16Array(total);
+  for (let i = 0; i < total; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    luma[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    // Transparent pixels are background whatever their color channels say
+    colors[i] = data[i * 4 + 3] < 16 ? 0 : quantize(r, g, b);
+  }
+  const backgroundColors = findBackgroundColors(colors);
+
+  onProgress?.(25, "Measuring edge density...");
+  const edges = computeEdges(luma, width, height);
+  const foreground = new Uint8Array(total);
+  for (let i = 0; i < total; i++) {
+    foreground[i] = !backgroundColors.has(colors[i]) || edges[i] ? 1 : 0;
+  }
+
+  onProgress?.(50, "Finding connected components...");
+  const cols = Math.ceil(width / CELL_SIZE);
+  const rows = Math.ceil(height / CELL_SIZE);
+  const cells = new Uint8Array(cols * rows);
+  for (let cy = 0; cy < rows; cy++) {
+    for (let cx = 0; cx < cols; cx++) {
+      let fg = 0;
+      let count = 0;
+      for (let y = cy * CELL_SIZE; y < Math.min(height, (cy + 1) * CELL_SIZE); y++) {
+        for (let x = cx * CELL_SIZE; x < Math.min(width, (cx + 1) * CELL_SIZE); x++) {
+          fg += foreground[y * width + x];
+          count++;
+        }
+      }
+      cells[cy * cols + cx] = fg / count >= FOREGROUND_CELL_SHARE ? 1 : 0;
+    }
+  }
+
+  onProgress?.(70, "Analyzing texture...");
+  const minSize = Math.max(MIN_SIZE_PX, width * MIN_SIZE_SHARE);
+  const candidates: (Box & { score: number; type: RegionType })[] = [];
+  for (const cellBox of findComponents(cells, cols, rows)) {
+    const pixelBox: Box = {
+      x: cellBox.x * CELL_SIZE,
+      y: cellBox.y * CELL_SIZE,
+      width: Math.min(width, (cellBox.x + cellBox.width) * CELL_SIZE) - cellBox.x * CELL_SIZE,
+      height: Math.min(height, (cellBox.y + cellBox.height) * CELL_SIZE) - cellBox.y * CELL_SIZE,
+    };
+    const box = tightenBox(pixelBox, width, foreground);
+    if (!box || box.width < minSize || box.height < minSize) continue;
+    // A component spanning (almost) the whole page is the page itself
+    if (box.width * box.height > total * 0.9) continue;
+
+    const classified = classifyRegion(box, measureRegion(box, width, luma, colors, foreground, edges), width);
+    if (classified) candidates.push({ ...box, ...classified });
+  }
+
+  onProgress?.(90, "Filtering regions...");
+  // Drop boxes that duplicate or sit inside a better-scoring box
+  candidates.sort((a, b) => b.score - a.score);
+  const kept: (Box & { score: number; type: RegionType })[] = [];
+  for (const candidate of candidates) {
+    if (kept.some((k) => iou(k, candidate) > 0.5 || contains(k, candidate))) continue;
+    kept.push(candidate);
+  }
+  kept.sort((a, b) => a.y - b.y || a.x - b.x);
+
+  const now = Date.now();
+  const regions: CropRegion[] = kept.map((box, index) => ({
+    id: `local-${index}-${now}`,
+    x: box.x,
+    y: box.y,
+    width: box.width,
+    height: box.height,
+    label: `Image ${index + 1}`,
+    filename: `image-${index + 1}`,
+    type: box.type,
+    confidence: Math.round(box.score * 100) / 100,
+  }));
+
+  onProgress?.(100, "Complete!");
+  return {
+    regions,
+    confidence: kept.length > 0 ? kept.reduce((sum, box) => sum + box.score, 0) / kept.length : 0,
+    imageName: null,
+  };
+}
@@ -0,0 +1,182 @@
+import { CropRegion } from "@/types/crop";
+import { loadImage } from "@/lib/imageUtils";
+
+// Only this far around the click is analyzed (px), which keeps clicks fast on very large pages
+const WAND_RADIUS = 800;
+// Max per-channel difference from the background color that still counts as background
+const COLOR_TOLERANCE = 24;
+// Sobel magnitude above which a pixel is an edge; edges connect outlines and thin strokes
+const EDGE_THRESHOLD = 60;
+// Gaps up to this size (px) between parts of one element are bridged (e.g. separate strokes of an icon)
+const BRIDGE_RADIUS = 2;
+const MIN_SIZE = 4;
+
+type Bounds = Pick<CropRegion, "x" | "y" | "width" | "height">;
+
+// Decoding a large data URL on every click is slow; keep the last image around
+let cached: { src: string; ctx: CanvasRenderingContext2D; width: number; height: number } | null = null;
+
+async function getImageContext(imageSrc: string) {
+  if (cached?.src === imageSrc) return cached;
+  const img = await loadImage(imageSrc);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0);
+  cached = { src: imageSrc, ctx, width: canvas.width, height: canvas.height };
+  return cached;
+}
+
+/**
+ * Most common (quantized) color along the border of the analyzed area, averaged
+ */
+function borderColor(data: Uint8ClampedArray, width: number, height: number): [number, number, number, number] {
+  const buckets = new Map<number, { count: number; sum: [number, number, number, number] }>();
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    const key = ((data[i] >> 4) << 12) | ((data[i + 1] >> 4) << 8) | ((data[i + 2] >> 4) << 4) | (data[i + 3] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0, 0] };
+    bucket.count++;
+    for (let c = 0; c < 4; c++) bucket.sum[c] += data[i + c];
+    buckets.set(key, bucket);
+  };
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  let best = { count: 0, sum: [0, 0, 0, 0] as [number, number, number, number] };
+  for (const bucket of buckets.values()) {
+    if (bucket.count > best.count) best = bucket;
+  }
+  return best.sum.map((value) => value / best.count) as [number, number, number, number];
+}
+
+/**
+ * Marks pixels that differ from the background color (1) and edge pixels (2)
+ */
+function classifyPixels(data: Uint8ClampedArray, width: number, height: number, background: number[]): Uint8Array {
+  const total = width * height;
+  const luma = new Float32Array(total);
+  const mask = new Uint8Array(total);
+  for (let i = 0; i < total; i++) {
+    const p = i * 4;
+    luma[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    const differs =
+      Math.abs(data[p + 3] - background[3]) > COLOR_TOLERANCE * 2 ||
+      (data[p + 3] > 0 &&
+        (Math.abs(data[p] - background[0]) > COLOR_TOLERANCE ||
+          Math.abs(data[p + 1] - background[1]) > COLOR_TOLERANCE ||
+          Math.abs(data[p + 2] - background[2]) > COLOR_TOLERANCE));
+    if (differs) mask[i] = 1;
+  }
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      if (mask[i]) continue;
+      const gx =
+        luma[i - width + 1] + 2 * luma[i + 1] + luma[i + width + 1] - luma[i - width - 1] - 2 * luma[i - 1] - luma[i + width - 1];
+      const gy =
+        luma[i + width - 1] + 2 * luma[i + width] + luma[i + width + 1] - luma[i - width - 1] - 2 * luma[i - width] - luma[i - width + 1];
+      if (Math.hypot(gx, gy) > EDGE_THRESHOLD) mask[i] = 2;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Grows the mask by `radius` px (square structuring element, separable)
+ */
+function dilate(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  const horizontal = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const nx = x + dx;
+        if (nx >= 0 && nx < width && mask[y * width + nx]) {
+          horizontal[y * width + x] = 1;
+          break;
+        }
+      }
+    }
+  }
+  const result = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny >= 0 && ny < height && horizontal[ny * width + x]) {
+          result[y * width + x] = 1;
+          break;
+        }
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds the bounds of the visual element under a point (natural image coordinates): the connected
+ * set of pixels that differ from the surrounding background color or lie on an edge. Returns null
+ * when the point is on the background.
+ */
+export async function findElementAt(imageSrc: string, x: number, y: number): Promise<Bounds | null> {
+  const image = await getImageContext(imageSrc);
+  const px = Math.floor(x);
+  const py = Math.floor(y);
+  if (px < 0 || py < 0 || px >= image.width || py >= image.height) return null;
+
+  const left = Math.max(0, px - WAND_RADIUS);
+  const top = Math.max(0, py - WAND_RADIUS);
+  const width = Math.min(image.width, px + WAND_RADIUS) - left;
+  const height = Math.min(image.height, py + WAND_RADIUS) - top;
+  const { data } = image.ctx.getImageData(left, top, width, height);
+
+  const mask = classifyPixels(data, width, height, borderColor(data, width, height));
+  const seed = (py - top) * width + (px - left);
+  if (!mask[seed]) return null;
+
+  // Flood fill over the bridged mask, then measure only the pixels that really belong to the element
+  const passable = dilate(mask, width, height, BRIDGE_RADIUS);
+  const visited = new Uint8Array(mask.length);
+  const stack = new Int32Array(mask.length);
+  let size = 0;
+  stack[size++] = seed;
+  visited[seed] = 1;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -1;
+  let maxY = -1;
+  while (size > 0) {
+    const i = stack[--size];
+    const cx = i % width;
+    const cy = (i - cx) / width;
+    // Edge pixels just outside the element would widen the box by a pixel
+    if (mask[i] === 1) {
+      if (cx < minX) minX = cx;
+      if (cx > maxX) maxX = cx;
+      if (cy < minY) minY = cy;
+      if (cy > maxY) maxY = cy;
+    }
+    for (let ny = Math.max(0, cy - 1); ny <= Math.min(height - 1, cy + 1); ny++) {
+      for (let nx = Math.max(0, cx - 1); nx <= Math.min(width - 1, cx + 1); nx++) {
+        const n = ny * width + nx;
+        if (!visited[n] && passable[n]) {
+          visited[n] = 1;
+          stack[size++] = n;
+        }
+      }
+    }
+  }
+
+  if (maxX - minX + 1 < MIN_SIZE || maxY - minY + 1 < MIN_SIZE) return null;
+  return { x: left + minX, y: top + minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
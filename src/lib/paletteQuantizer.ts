@@ -0,0 +1,145 @@
+/**
+ * Median-cut color quantization for PNG export. Reducing a crop to a palette lets the PNG optimizer
+ * write it as an indexed image, which is usually several times smaller for icons, logos and UI graphics.
+ */
+
+// Colors are bucketed at 5 bits per channel (RGBA) before splitting
+const BUCKET_SHIFT = 3;
+
+interface ColorBucket {
+  count: number;
+  sum: [number, number, number, number];
+}
+
+interface ColorBox {
+  buckets: ColorBucket[];
+  count: number;
+}
+
+function bucketKey(data: Uint8ClampedArray, i: number): number {
+  return (
+    ((data[i] >> BUCKET_SHIFT) << 15) |
+    ((data[i + 1] >> BUCKET_SHIFT) << 10) |
+    ((data[i + 2] >> BUCKET_SHIFT) << 5) |
+    (data[i + 3] >> BUCKET_SHIFT)
+  );
+}
+
+function average(bucket: ColorBucket, channel: number): number {
+  return bucket.sum[channel] / bucket.count;
+}
+
+/**
+ * The channel with the widest spread in a box, and that spread
+ */
+function widestChannel(box: ColorBox): { channel: number; range: number } {
+  let best = { channel: 0, range: -1 };
+  for (let channel = 0; channel < 4; channel++) {
+    let min = 255;
+    let max = 0;
+    for (const bucket of box.buckets) {
+      const value = average(bucket, channel);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > best.range) best = { channel, range: max - min };
+  }
+  return best;
+}
+
+/**
+ * Splits the box at the pixel-weighted median of its widest channel
+ */
+function splitBox(box: ColorBox, channel: number): [ColorBox, ColorBox] {
+  const sorted = [...box.buckets].sort((a, b) => average(a, channel) - average(b, channel));
+  let seen = 0;
+  let index = 0;
+  while (index < sorted.length - 1 && seen + sorted[index].count <= box.count / 2) {
+    seen += sorted[index].count;
+    index++;
+  }
+  const cut = Math.max(1, index);
+  const first = sorted.slice(0, cut);
+  const second = sorted.slice(cut);
+  const total = (buckets: ColorBucket[]) => buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  return [
+    { buckets: first, count: total(first) },
+    { buckets: second, count: total(second) },
+  ];
+}
+
+/**
+ * Reduces an RGBA image to at most `colors` colors in place. Fully transparent pixels stay transparent.
+ * Images that already have few enough colors are left untouched.
+ */
+export function quantizeToPalette(data: Uint8ClampedArray, colors: number): void {
+  const exact = new Set<number>();
+  const buckets = new Map<number, ColorBucket>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    if (exact.size <= colors) {
+      exact.add(((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3]) >>> 0);
+    }
+    const key = bucketKey(data, i);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0, 0] };
+    bucket.count++;
+    for (let c = 0; c < 4; c++) bucket.sum[c] += data[i + c];
+    buckets.set(key, bucket);
+  }
+  // One palette entry is kept for transparency
+  if (exact.size < colors) return;
+
+  const boxes: ColorBox[] = [{ buckets: [...buckets.values()], count: 0 }];
+  boxes[0].count = boxes[0].buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  while (boxes.length < colors - 1) {
+    // Split the box whose spread matters most: wide and heavily used
+    let target = -1;
+    let targetScore = 0;
+    let targetChannel = 0;
+    boxes.forEach((box, index) => {
+      if (box.buckets.length < 2) return;
+      const { channel, range } = widestChannel(box);
+      const score = range * Math.sqrt(box.count);
+      if (score > targetScore) {
+        target = index;
+        targetScore = score;
+        targetChannel = channel;
+      }
+    });
+    if (target < 0) break;
+    boxes.splice(target, 1, ...splitBox(boxes[target], targetChannel));
+  }
+
+  const palette = boxes.map((box) => {
+    const sum = [0, 0, 0, 0];
+    for (const bucket of box.buckets) for (let c = 0; c < 4; c++) sum[c] += bucket.sum[c];
+    return sum.map((value) => Math.round(value / box.count));
+  });
+
+  // Nearest palette entry per bucket; pixels in the same bucket map to the same color
+  const nearest = new Map<number, number[]>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) {
+      data[i] = data[i + 1] = data[i + 2] = 0;
+      continue;
+    }
+    const key = bucketKey(data, i);
+    let color = nearest.get(key);
+    if (!color) {
+      let bestDistance = Infinity;
+      for (const entry of palette) {
+        let distance = 0;
+        for (let c = 0; c < 4; c++) {
+          const diff = entry[c] - data[i + c];
+          distance += diff * diff;
+        }
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          color = entry;
+        }
+      }
+      nearest.set(key, color);
+    }
+    for (let c = 0; c < 4; c++) data[i + c] = color[c];
+  }
+}
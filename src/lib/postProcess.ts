@@ -0,0 +1,212 @@
+import { CropRegion, RegionPostProcess } from "@/types/crop";
+import { hasMask } from "@/lib/regionShapes";
+
+type Canvas = { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D };
+type Color = [number, number, number, number];
+
+/** Width / height ratios offered for padding */
+export const ASPECT_RATIOS = [
+  { value: 1, label: "1:1 (square)" },
+  { value: 4 / 3, label: "4:3" },
+  { value: 3 / 2, label: "3:2" },
+  { value: 16 / 9, label: "16:9" },
+  { value: 3 / 4, label: "3:4" },
+  { value: 2 / 3, label: "2:3" },
+  { value: 9 / 16, label: "9:16" },
+];
+
+export function hasPostProcess(steps: RegionPostProcess | undefined): boolean {
+  return !!steps && Object.values(steps).some((value) => value !== undefined);
+}
+
+/**
+ * Whether a region's export has transparent pixels, from its shape or post-processing, and so needs a
+ * format with alpha
+ */
+export function needsAlpha(region: CropRegion): boolean {
+  const steps = region.postProcess;
+  if (hasMask(region) || steps?.knockout) return true;
+  return !!(steps?.padding || steps?.aspectRatio) && !steps.padColor;
+}
+
+function createCanvas(width: number, height: number): Canvas {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+}
+
+/**
+ * Most common (quantized) color along the image border, averaged; transparent pixels count as one color
+ */
+function borderColor(data: Uint8ClampedArray, width: number, height: number): Color {
+  const buckets = new Map<number, { count: number; sum: Color }>();
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    const key =
+      data[i + 3] === 0
+        ? -1
+        : ((data[i] >> 4) << 12) | ((data[i + 1] >> 4) << 8) | ((data[i + 2] >> 4) << 4) | (data[i + 3] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0, 0] };
+    bucket.count++;
+    for (let c = 0; c < 4; c++) bucket.sum[c] += data[i + c];
+    buckets.set(key, bucket);
+  };
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  let best = { count: 0, sum: [0, 0, 0, 0] as Color };
+  for (const bucket of buckets.values()) {
+    if (bucket.count > best.count) best = bucket;
+  }
+  return best.sum.map((value) => value / Math.max(1, best.count)) as Color;
+}
+
+function parseHexColor(hex: string): Color {
+  const value = parseInt(hex.replace("#", "").padEnd(6, "0").slice(0, 6), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255, 255];
+}
+
+/**
+ * Max per-channel difference of a pixel from a color; fully transparent pixels only match transparency
+ */
+function colorDistance(data: Uint8ClampedArray, i: number, color: Color): number {
+  if (data[i + 3] === 0 || color[3] === 0) return data[i + 3] === color[3] ? 0 : 255;
+  return Math.max(
+    Math.abs(data[i] - color[0]),
+    Math.abs(data[i + 1] - color[1]),
+    Math.abs(data[i + 2] - color[2]),
+    Math.abs(data[i + 3] - color[3]),
+  );
+}
+
+function knockout({ canvas, ctx }: Canvas, options: NonNullable<RegionPostProcess["knockout"]>) {
+  const { width, height } = canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const { data } = image;
+  const color = options.color === "auto" ? borderColor(data, width, height) : parseHexColor(options.color);
+  const limit = options.tolerance + options.feather;
+
+  // Remaining opacity per pixel: 0 within the tolerance, rising to 1 across the feather band
+  const opacity = (i: number) => {
+    const distance = colorDistance(data, i * 4, color);
+    if (distance > limit) return 1;
+    return distance <= options.tolerance ? 0 : (distance - options.tolerance) / options.feather;
+  };
+
+  if (!options.contiguous) {
+    for (let i = 0; i < width * height; i++) data[i * 4 + 3] *= opacity(i);
+  } else {
+    // Flood fill from the border through background-like pixels
+    const visited = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const push = (i: number) => {
+      if (visited[i]) return;
+      visited[i] = 1;
+      if (colorDistance(data, i * 4, color) <= limit) stack.push(i);
+    };
+    for (let x = 0; x < width; x++) {
+      push(x);
+      push((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+      push(y * width);
+      push(y * width + width - 1);
+    }
+    while (stack.length > 0) {
+      const i = stack.pop() as number;
+      const x = i % width;
+      data[i * 4 + 3] *= opacity(i);
+      if (x > 0) push(i - 1);
+      if (x < width - 1) push(i + 1);
+      if (i >= width) push(i - width);
+      if (i < width * (height - 1)) push(i + width);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Bounds of everything that differs from the border color; null when nothing does
+ */
+function trimBounds({ canvas, ctx }: Canvas, tolerance: number) {
+  const { width, height } = canvas;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const color = borderColor(data, width, height);
+
+  let left = width;
+  let right = -1;
+  let top = height;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (colorDistance(data, (y * width + x) * 4, color) <= tolerance) continue;
+      if (x < left) left = x;
+      if (x > right) right = x;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+    }
+  }
+  return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * Copies the source centered onto a canvas of the given size, filled with `fill` (transparent when unset)
+ */
+function pad(source: Canvas, width: number, height: number, fill: string | undefined): Canvas {
+  const target = createCanvas(width, height);
+  if (fill) {
+    target.ctx.fillStyle = fill;
+    target.ctx.fillRect(0, 0, target.canvas.width, target.canvas.height);
+  }
+  target.ctx.drawImage(
+    source.canvas,
+    Math.round((target.canvas.width - source.canvas.width) / 2),
+    Math.round((target.canvas.height - source.canvas.height) / 2),
+  );
+  return target;
+}
+
+/**
+ * Runs a region's post-processing on its rendered crop. `scale` is the crop's size relative to image pixels
+ * (below 1 for thumbnails), so padding keeps its proportion. Returns the source itself when there is nothing to do.
+ */
+export function applyPostProcess(source: Canvas, steps: RegionPostProcess | undefined, scale = 1): Canvas {
+  if (!steps || !hasPostProcess(steps)) return source;
+  let result = source;
+
+  if (steps.knockout) knockout(result, steps.knockout);
+
+  if (steps.trim) {
+    const bounds = trimBounds(result, steps.trim.tolerance);
+    if (bounds && (bounds.width < result.canvas.width || bounds.height < result.canvas.height)) {
+      const trimmed = createCanvas(bounds.width, bounds.height);
+      trimmed.ctx.drawImage(result.canvas, -bounds.x, -bounds.y);
+      result = trimmed;
+    }
+  }
+
+  if (steps.padding) {
+    const padding = Math.round(steps.padding * scale) * 2;
+    result = pad(result, result.canvas.width + padding, result.canvas.height + padding, steps.padColor);
+  }
+
+  if (steps.aspectRatio) {
+    const { width, height } = result.canvas;
+    if (Math.abs(width / height - steps.aspectRatio) > 0.001) {
+      result =
+        width / height < steps.aspectRatio
+          ? pad(result, height * steps.aspectRatio, height, steps.padColor)
+          : pad(result, width, width / steps.aspectRatio, steps.padColor);
+    }
+  }
+  return result;
+}
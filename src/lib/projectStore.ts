@@ -0,0 +1,119 @@
+import { Project } from "@/types/project";
+
+const DB_NAME = "image-slicer";
+const DB_VERSION = 2;
+const PROJECT_STORE = "projects";
+// localStorage key pointing at the project open in the editor, used to restore it after a reload or crash
+const CURRENT_PROJECT_KEY = "image-slicer:current-project";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          const store = db.createObjectStore(PROJECT_STORE, { keyPath: "id" });
+          store.createIndex("updatedAt", "updatedAt");
+        }
+        if (event.oldVersion === 1) {
+          migrateSingleImageProjects(request.transaction.objectStore(PROJECT_STORE));
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Version 1 stored one image per project; version 2 stores a list of images
+ */
+function migrateSingleImageProjects(store: IDBObjectStore) {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { image, imageName, regions, ...project } = cursor.value;
+    const migrated: Project = {
+      ...project,
+      images: [
+        {
+          id: `${project.id}-image`,
+          image,
+          imageName,
+          regions,
+          status: regions.length > 0 ? "done" : "pending",
+        },
+      ],
+    };
+    cursor.update(migrated);
+    cursor.continue();
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECT_STORE, mode);
+  return requestToPromise(run(transaction.objectStore(PROJECT_STORE)));
+}
+
+export function createProjectId(): string {
+  return `project-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Lists all saved projects, most recently edited first
+ */
+export async function listProjects(): Promise<Project[]> {
+  const projects = await withStore<Project[]>("readonly", (store) => store.index("updatedAt").getAll());
+  return projects.reverse();
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+  return withStore<Project | undefined>("readonly", (store) => store.get(id));
+}
+
+/**
+ * Creates or updates a project, keeping its original creation date
+ */
+export async function saveProject(project: Omit<Project, "createdAt" | "updatedAt">): Promise<Project> {
+  const existing = await getProject(project.id);
+  const now = Date.now();
+  const record: Project = { ...project, createdAt: existing?.createdAt ?? now, updatedAt: now };
+  await withStore("readwrite", (store) => store.put(record));
+  return record;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+  if (getCurrentProjectId() === id) setCurrentProjectId(null);
+}
+
+export async function duplicateProject(id: string): Promise<Project> {
+  const source = await getProject(id);
+  if (!source) throw new Error("Project not found");
+  return saveProject({ ...source, id: createProjectId(), name: `${source.name} (copy)` });
+}
+
+export function getCurrentProjectId(): string | null {
+  return localStorage.getItem(CURRENT_PROJECT_KEY);
+}
+
+export function setCurrentProjectId(id: string | null) {
+  if (id) localStorage.setItem(CURRENT_PROJECT_KEY, id);
+  else localStorage.removeItem(CURRENT_PROJECT_KEY);
+}
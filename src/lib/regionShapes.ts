@@ -0,0 +1,98 @@
+import { CropRegion, RegionShape, ShapePoint } from "@/types/crop";
+
+export const REGION_SHAPES: { value: RegionShape; label: string }[] = [
+  { value: "rectangle", label: "Rectangle" },
+  { value: "ellipse", label: "Ellipse" },
+  { value: "rounded-rect", label: "Rounded rectangle" },
+  { value: "polygon", label: "Polygon" },
+];
+
+// Starting outline when a region becomes a polygon: its box corners
+const DEFAULT_POLYGON: ShapePoint[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+/** Default corner radius as a share of the shorter side */
+const DEFAULT_RADIUS_SHARE = 0.15;
+
+/**
+ * Whether the region exports with transparency outside its outline
+ */
+export function hasMask(region: CropRegion): boolean {
+  return (region.shape ?? "rectangle") !== "rectangle";
+}
+
+export function maxCornerRadius(region: Pick<CropRegion, "width" | "height">): number {
+  return Math.min(region.width, region.height) / 2;
+}
+
+/**
+ * Updates that switch a region to a shape, filling in that shape's parameters if it has none yet
+ */
+export function shapeUpdates(region: CropRegion, shape: RegionShape): Partial<CropRegion> {
+  const updates: Partial<CropRegion> = { shape };
+  if (shape === "rounded-rect" && region.cornerRadius === undefined) {
+    updates.cornerRadius = Math.round(Math.min(region.width, region.height) * DEFAULT_RADIUS_SHARE);
+  }
+  if (shape === "polygon" && !region.points?.length) {
+    updates.points = DEFAULT_POLYGON;
+  }
+  return updates;
+}
+
+/**
+ * Polygon vertices of a region (relative to its box), falling back to the box corners
+ */
+export function regionPolygon(region: CropRegion): ShapePoint[] {
+  return region.points?.length ? region.points : DEFAULT_POLYGON;
+}
+
+/**
+ * Builds the region outline for a canvas of `width` x `height` showing exactly the region box
+ */
+export function regionShapePath(region: CropRegion, width: number, height: number): Path2D {
+  const path = new Path2D();
+  switch (region.shape ?? "rectangle") {
+    case "ellipse":
+      path.ellipse(width / 2, height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+      break;
+    case "rounded-rect": {
+      // The radius is in image pixels; the canvas may be scaled (previews)
+      const scale = width / region.width;
+      const r = Math.min((region.cornerRadius ?? 0) * scale, width / 2, height / 2);
+      path.moveTo(r, 0);
+      path.arcTo(width, 0, width, height, r);
+      path.arcTo(width, height, 0, height, r);
+      path.arcTo(0, height, 0, 0, r);
+      path.arcTo(0, 0, width, 0, r);
+      path.closePath();
+      break;
+    }
+    case "polygon": {
+      regionPolygon(region).forEach((point, index) => {
+        if (index === 0) path.moveTo(point.x * width, point.y * height);
+        else path.lineTo(point.x * width, point.y * height);
+      });
+      path.closePath();
+      break;
+    }
+    default:
+      path.rect(0, 0, width, height);
+  }
+  return path;
+}
+
+/**
+ * Clears everything outside the region outline. The canvas must hold the region box, at any scale.
+ */
+export function applyRegionMask(ctx: CanvasRenderingContext2D, region: CropRegion) {
+  if (!hasMask(region)) return;
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.globalCompositeOperation = "destination-in";
+  ctx.fill(regionShapePath(region, width, height));
+  ctx.restore();
+}
@@ -0,0 +1,187 @@
+import { CropRegion, ShapePoint } from "@/types/crop";
+
+// Rotations snap to this step (degrees) while Shift is held
+export const ROTATION_SNAP = 15;
+
+/**
+ * Rotates a vector clockwise (screen coordinates, y down) by `degrees`
+ */
+export function rotateVector(x: number, y: number, degrees: number): ShapePoint {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+}
+
+/**
+ * The region's corners in image coordinates (top-left, top-right, bottom-right, bottom-left of its content)
+ */
+export function regionCorners(region: CropRegion): ShapePoint[] {
+  if (region.quad?.length === 4) {
+    return region.quad.map((p) => ({ x: region.x + p.x * region.width, y: region.y + p.y * region.height }));
+  }
+  const cx = region.x + region.width / 2;
+  const cy = region.y + region.height / 2;
+  const w = region.width / 2;
+  const h = region.height / 2;
+  return [
+    [-w, -h],
+    [w, -h],
+    [w, h],
+    [-w, h],
+  ].map(([x, y]) => {
+    const v = rotateVector(x, y, region.rotation ?? 0);
+    return { x: cx + v.x, y: cy + v.y };
+  });
+}
+
+/**
+ * Updates that switch a region into perspective mode (starting from its current, possibly rotated,
+ * corners) or back to a plain box around the quad
+ */
+export function perspectiveUpdates(region: CropRegion, enabled: boolean): Partial<CropRegion> {
+  if (!enabled) return { quad: undefined };
+
+  const corners = regionCorners(region);
+  const minX = Math.min(...corners.map((p) => p.x));
+  const minY = Math.min(...corners.map((p) => p.y));
+  const width = Math.max(...corners.map((p) => p.x)) - minX;
+  const height = Math.max(...corners.map((p) => p.y)) - minY;
+  return {
+    x: minX,
+    y: minY,
+    width,
+    height,
+    rotation: undefined,
+    quad: corners.map((p) => ({ x: (p.x - minX) / width, y: (p.y - minY) / height })),
+  };
+}
+
+/**
+ * Size of the upright export in image pixels; for a quad the longer of each pair of opposite edges
+ */
+export function uprightSize(region: CropRegion): { width: number; height: number } {
+  if (region.quad?.length !== 4) return { width: region.width, height: region.height };
+  const [tl, tr, br, bl] = regionCorners(region);
+  const dist = (a: ShapePoint, b: ShapePoint) => Math.hypot(b.x - a.x, b.y - a.y);
+  return { width: Math.max(dist(tl, tr), dist(bl, br)), height: Math.max(dist(tl, bl), dist(tr, br)) };
+}
+
+/**
+ * Projective mapping from the unit square to a quad (Heckbert's closed form)
+ */
+function squareToQuad([p0, p1, p2, p3]: ShapePoint[]) {
+  const sx = p0.x - p1.x + p2.x - p3.x;
+  const sy = p0.y - p1.y + p2.y - p3.y;
+  let g = 0;
+  let h = 0;
+  if (Math.abs(sx) > 1e-9 || Math.abs(sy) > 1e-9) {
+    const dx1 = p1.x - p2.x;
+    const dx2 = p3.x - p2.x;
+    const dy1 = p1.y - p2.y;
+    const dy2 = p3.y - p2.y;
+    const den = dx1 * dy2 - dx2 * dy1;
+    g = (sx * dy2 - dx2 * sy) / den;
+    h = (dx1 * sy - sx * dy1) / den;
+  }
+  const a = p1.x - p0.x + g * p1.x;
+  const b = p3.x - p0.x + h * p3.x;
+  const d = p1.y - p0.y + g * p1.y;
+  const e = p3.y - p0.y + h * p3.y;
+  return (u: number, v: number): ShapePoint => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + p0.x) / w, y: (d * u + e * v + p0.y) / w };
+  };
+}
+
+/**
+ * Flattens the quad into a width x height canvas with bilinear sampling
+ */
+function warpQuad(img: HTMLImageElement, corners: ShapePoint[], width: number, height: number): HTMLCanvasElement {
+  // Only read the pixels under the quad
+  const left = Math.max(0, Math.floor(Math.min(...corners.map((p) => p.x))));
+  const top = Math.max(0, Math.floor(Math.min(...corners.map((p) => p.y))));
+  const right = Math.min(img.naturalWidth, Math.ceil(Math.max(...corners.map((p) => p.x))));
+  const bottom = Math.min(img.naturalHeight, Math.ceil(Math.max(...corners.map((p) => p.y))));
+  const sw = Math.max(1, right - left);
+  const sh = Math.max(1, bottom - top);
+
+  const source = document.createElement("canvas");
+  source.width = sw;
+  source.height = sh;
+  const sourceCtx = source.getContext("2d");
+  if (!sourceCtx) throw new Error("Could not get canvas context");
+  sourceCtx.drawImage(img, left, top, sw, sh, 0, 0, sw, sh);
+  const src = sourceCtx.getImageData(0, 0, sw, sh).data;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+  const output = ctx.createImageData(width, height);
+  const out = output.data;
+
+  const map = squareToQuad(corners);
+  for (let j = 0; j < height; j++) {
+    for (let i = 0; i < width; i++) {
+      const p = map((i + 0.5) / width, (j + 0.5) / height);
+      const x = Math.min(sw - 1, Math.max(0, p.x - left - 0.5));
+      const y = Math.min(sh - 1, Math.max(0, p.y - top - 0.5));
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+      const o = (j * width + i) * 4;
+      for (let c = 0; c < 4; c++) {
+        const topValue = src[(y0 * sw + x0) * 4 + c] * (1 - fx) + src[(y0 * sw + x1) * 4 + c] * fx;
+        const bottomValue = src[(y1 * sw + x0) * 4 + c] * (1 - fx) + src[(y1 * sw + x1) * 4 + c] * fx;
+        out[o + c] = topValue * (1 - fy) + bottomValue * fy;
+      }
+    }
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvas;
+}
+
+/**
+ * Draws the region's content upright: rotated regions are rotated back and perspective quads are
+ * flattened. The result is scaled down to fit `maxSize` (previews).
+ */
+export function renderRegionUpright(img: HTMLImageElement, region: CropRegion, maxSize = Infinity): HTMLCanvasElement {
+  const size = uprightSize(region);
+  const scale = Math.min(1, maxSize / size.width, maxSize / size.height);
+  const width = Math.max(1, Math.round(size.width * scale));
+  const height = Math.max(1, Math.round(size.height * scale));
+
+  if (region.quad?.length === 4) {
+    return warpQuad(img, regionCorners(region), width, height);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  // Enable high-quality image rendering
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+
+  if (!region.rotation) {
+    const x = Math.round(region.x);
+    const y = Math.round(region.y);
+    ctx.drawImage(img, x, y, Math.round(region.width), Math.round(region.height), 0, 0, width, height);
+    return canvas;
+  }
+
+  // Map the region center to the canvas center and undo the rotation
+  ctx.scale(width / region.width, height / region.height);
+  ctx.translate(region.width / 2, region.height / 2);
+  ctx.rotate((-region.rotation * Math.PI) / 180);
+  ctx.drawImage(img, -(region.x + region.width / 2), -(region.y + region.height / 2));
+  return canvas;
+}
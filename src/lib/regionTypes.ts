@@ -0,0 +1,41 @@
+import { CropRegion, REGION_TYPES, RegionType } from "@/types/crop";
+
+/** Display name and overlay color per region type */
+export const REGION_TYPE_META: Record<RegionType, { label: string; color: string }> = {
+  photo: { label: "Photo", color: "hsl(75 100% 50%)" },
+  icon: { label: "Icon", color: "hsl(190 95% 50%)" },
+  logo: { label: "Logo", color: "hsl(280 85% 65%)" },
+  illustration: { label: "Illustration", color: "hsl(35 100% 55%)" },
+  avatar: { label: "Avatar", color: "hsl(330 90% 62%)" },
+  background: { label: "Background", color: "hsl(220 10% 60%)" },
+};
+
+/**
+ * Which regions are shown. Regions without a type or confidence (drawn by hand) always pass.
+ */
+export interface RegionFilter {
+  /** 0-1; regions below are hidden */
+  minConfidence: number;
+  hiddenTypes: RegionType[];
+}
+
+export const DEFAULT_REGION_FILTER: RegionFilter = { minConfidence: 0, hiddenTypes: [] };
+
+export function matchesRegionFilter(region: CropRegion, filter: RegionFilter): boolean {
+  if (region.confidence !== undefined && region.confidence < filter.minConfidence) return false;
+  if (region.type && filter.hiddenTypes.includes(region.type)) return false;
+  return true;
+}
+
+export function isFilterActive(filter: RegionFilter): boolean {
+  return filter.minConfidence > 0 || filter.hiddenTypes.length > 0;
+}
+
+/**
+ * Number of regions per type, in REGION_TYPES order, skipping types that don't occur
+ */
+export function countRegionTypes(regions: CropRegion[]): { type: RegionType; count: number }[] {
+  return REGION_TYPES.map((type) => ({ type, count: regions.filter((r) => r.type === type).length })).filter(
+    (entry) => entry.count > 0,
+  );
+}
@@ -0,0 +1,208 @@
+import { CropRegion } from "@/types/crop";
+import { loadImage } from "@/lib/imageUtils";
+
+// How far outside the box content is searched for, relative to the box size (clamped to MARGIN_MIN/MAX px)
+const MARGIN_SHARE = 0.15;
+const MARGIN_MIN = 8;
+const MARGIN_MAX = 96;
+// Width of the band around the box that is sampled for the background color
+const RING_WIDTH = 4;
+// Share of the ring that must have the same color for it to count as a background
+const MIN_BACKGROUND_SHARE = 0.6;
+// Max per-channel difference from the background color that still counts as background
+const COLOR_TOLERANCE = 32;
+const ALPHA_TOLERANCE = 64;
+// Share of a row/column that may differ from the background (anti-aliasing, compression noise)
+const NOISE_SHARE = 0.01;
+// Never shrink below this share of the original area; a box that collapses was probably on a flat region
+const MIN_AREA_SHARE = 0.1;
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+/**
+ * Pixels of a part of the image; `x`/`y` is the area's position in the image
+ */
+interface PixelArea {
+  data: Uint8ClampedArray;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Finds the local background color from a band of pixels around (or, at the image edge, just inside) the box.
+ * Returns null when the surroundings aren't a uniform color - there is nothing to snap against then.
+ */
+function findBackgroundColor(area: PixelArea, box: Rect): [number, number, number, number] | null {
+  const buckets = new Map<number, { count: number; sum: [number, number, number, number] }>();
+  let total = 0;
+
+  const sample = (x: number, y: number) => {
+    const i = (y * area.width + x) * 4;
+    const { data } = area;
+    const key = ((data[i] >> 4) << 12) | ((data[i + 1] >> 4) << 8) | ((data[i + 2] >> 4) << 4) | (data[i + 3] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0, 0] };
+    bucket.count++;
+    for (let c = 0; c < 4; c++) bucket.sum[c] += data[i + c];
+    buckets.set(key, bucket);
+    total++;
+  };
+
+  const outer = {
+    left: Math.max(0, box.x - RING_WIDTH),
+    top: Math.max(0, box.y - RING_WIDTH),
+    right: Math.min(area.width, box.x + box.width + RING_WIDTH),
+    bottom: Math.min(area.height, box.y + box.height + RING_WIDTH),
+  };
+  for (let y = outer.top; y < outer.bottom; y++) {
+    for (let x = outer.left; x < outer.right; x++) {
+      const inside = x >= box.x && x < box.x + box.width && y >= box.y && y < box.y + box.height;
+      if (!inside) sample(x, y);
+    }
+  }
+
+  // The box covers the whole image: fall back to its own border
+  if (total === 0) {
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = box.x; x < box.x + box.width; x++) {
+        const onBorder =
+          x - box.x < RING_WIDTH / 2 ||
+          box.x + box.width - x <= RING_WIDTH / 2 ||
+          y - box.y < RING_WIDTH / 2 ||
+          box.y + box.height - y <= RING_WIDTH / 2;
+        if (onBorder) sample(x, y);
+      }
+    }
+  }
+
+  let best: { count: number; sum: [number, number, number, number] } | null = null;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+  if (!best || best.count / total < MIN_BACKGROUND_SHARE) return null;
+  return best.sum.map((value) => value / best.count) as [number, number, number, number];
+}
+
+/**
+ * Computes content-fitted bounds for a box (area coordinates): edges on background move in,
+ * edges that cut through content move out until the content ends or the area does.
+ */
+function fitToContent(area: PixelArea, box: Rect): Rect | null {
+  const background = findBackgroundColor(area, box);
+  if (!background) return null;
+
+  const { data, width, height } = area;
+  const foreground = new Uint8Array(width * height);
+  for (let i = 0; i < foreground.length; i++) {
+    const p = i * 4;
+    foreground[i] =
+      Math.abs(data[p + 3] - background[3]) > ALPHA_TOLERANCE ||
+      (data[p + 3] > 0 &&
+        (Math.abs(data[p] - background[0]) > COLOR_TOLERANCE ||
+          Math.abs(data[p + 1] - background[1]) > COLOR_TOLERANCE ||
+          Math.abs(data[p + 2] - background[2]) > COLOR_TOLERANCE))
+        ? 1
+        : 0;
+  }
+
+  const rowHasContent = (y: number, from: number, to: number) => {
+    let count = 0;
+    for (let x = from; x < to; x++) count += foreground[y * width + x];
+    return count > Math.floor((to - from) * NOISE_SHARE);
+  };
+  const columnHasContent = (x: number, from: number, to: number) => {
+    let count = 0;
+    for (let y = from; y < to; y++) count += foreground[y * width + x];
+    return count > Math.floor((to - from) * NOISE_SHARE);
+  };
+
+  let left = box.x;
+  let top = box.y;
+  let right = box.x + box.width;
+  let bottom = box.y + box.height;
+
+  // Shrink edges that sit on background
+  while (top < bottom && !rowHasContent(top, left, right)) top++;
+  while (bottom > top && !rowHasContent(bottom - 1, left, right)) bottom--;
+  while (left < right && !columnHasContent(left, top, bottom)) left++;
+  while (right > left && !columnHasContent(right - 1, top, bottom)) right--;
+  if (right <= left || bottom <= top) return null;
+
+  // Grow edges where the content continues; growing one edge widens the span of the others, so repeat
+  let grew = true;
+  while (grew) {
+    grew = false;
+    if (top > 0 && rowHasContent(top - 1, left, right)) {
+      top--;
+      grew = true;
+    }
+    if (bottom < height && rowHasContent(bottom, left, right)) {
+      bottom++;
+      grew = true;
+    }
+    if (left > 0 && columnHasContent(left - 1, top, bottom)) {
+      left--;
+      grew = true;
+    }
+    if (right < width && columnHasContent(right, top, bottom)) {
+      right++;
+      grew = true;
+    }
+  }
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Snaps one region to the pixel content in and around it. Returns the region unchanged when the
+ * surroundings have no uniform background or the fitted box would be implausibly small. Rotated and
+ * perspective regions are left alone; their box isn't what gets exported.
+ */
+function snapRegion(ctx: CanvasRenderingContext2D, imageWidth: number, imageHeight: number, region: CropRegion) {
+  if (region.rotation || region.quad) return region;
+  const box = {
+    x: Math.max(0, Math.round(region.x)),
+    y: Math.max(0, Math.round(region.y)),
+    width: Math.round(region.width),
+    height: Math.round(region.height),
+  };
+  box.width = Math.min(box.width, imageWidth - box.x);
+  box.height = Math.min(box.height, imageHeight - box.y);
+  if (box.width <= 0 || box.height <= 0) return region;
+
+  const margin = Math.round(
+    Math.min(MARGIN_MAX, Math.max(MARGIN_MIN, Math.max(box.width, box.height) * MARGIN_SHARE)),
+  );
+  const wx = Math.max(0, box.x - margin);
+  const wy = Math.max(0, box.y - margin);
+  const ww = Math.min(imageWidth, box.x + box.width + margin) - wx;
+  const wh = Math.min(imageHeight, box.y + box.height + margin) - wy;
+  const area: PixelArea = { data: ctx.getImageData(wx, wy, ww, wh).data, x: wx, y: wy, width: ww, height: wh };
+
+  const fitted = fitToContent(area, { ...box, x: box.x - wx, y: box.y - wy });
+  if (!fitted || fitted.width * fitted.height < box.width * box.height * MIN_AREA_SHARE) return region;
+
+  const snapped = { x: fitted.x + wx, y: fitted.y + wy, width: fitted.width, height: fitted.height };
+  const unchanged =
+    snapped.x === region.x && snapped.y === region.y && snapped.width === region.width && snapped.height === region.height;
+  return unchanged ? region : { ...region, ...snapped };
+}
+
+/**
+ * Tightens (or extends) regions to the actual image content, in natural image coordinates.
+ * Regions that don't change are returned as the same objects.
+ */
+export async function snapRegionsToContent(imageSrc: string, regions: CropRegion[]): Promise<CropRegion[]> {
+  if (regions.length === 0) return regions;
+
+  const img = await loadImage(imageSrc);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(img, 0, 0);
+
+  return regions.map((region) => snapRegion(ctx, canvas.width, canvas.height, region));
+}
@@ -0,0 +1,222 @@
+import { ExportSettings } from "@/types/export";
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface Rect extends Size {
+  x: number;
+  y: number;
+}
+
+/** One image on the sheet */
+export interface SpriteFrame extends Rect {
+  /** CSS-safe name, unique within the sheet */
+  name: string;
+}
+
+export interface SpriteLayout extends Size {
+  /** Position of each input size on the sheet, in input order */
+  rects: Rect[];
+}
+
+// Sheet widths tried, relative to the square root of the total area
+const WIDTH_FACTORS = [1, 1.25, 1.5, 2];
+
+function nextPowerOfTwo(value: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(1, value)));
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return (
+    outer.x <= inner.x &&
+    outer.y <= inner.y &&
+    outer.x + outer.width >= inner.x + inner.width &&
+    outer.y + outer.height >= inner.y + inner.height
+  );
+}
+
+/**
+ * MaxRects bin packing into a fixed width with unbounded height, placing each rect as high (then as far left)
+ * as it fits. Larger rects go first.
+ */
+function packIntoWidth(sizes: Size[], binWidth: number): { rects: Rect[]; height: number } {
+  let free: Rect[] = [{ x: 0, y: 0, width: binWidth, height: sizes.reduce((sum, size) => sum + size.height, 0) }];
+  const rects: Rect[] = new Array(sizes.length);
+  const order = sizes
+    .map((_, i) => i)
+    .sort(
+      (a, b) =>
+        Math.max(sizes[b].width, sizes[b].height) - Math.max(sizes[a].width, sizes[a].height) ||
+        sizes[b].width * sizes[b].height - sizes[a].width * sizes[a].height,
+    );
+
+  let height = 0;
+  for (const i of order) {
+    const { width: w, height: h } = sizes[i];
+    let best: Rect | null = null;
+    for (const rect of free) {
+      if (rect.width < w || rect.height < h) continue;
+      if (!best || rect.y < best.y || (rect.y === best.y && rect.x < best.x)) {
+        best = { x: rect.x, y: rect.y, width: w, height: h };
+      }
+    }
+    // The bin is as tall as all rects stacked, so there is always room
+    const placed = best ?? { x: 0, y: height, width: w, height: h };
+    rects[i] = placed;
+    height = Math.max(height, placed.y + h);
+
+    // Split every free rect the placed one overlaps into the parts left around it
+    const next: Rect[] = [];
+    for (const rect of free) {
+      const overlaps =
+        placed.x < rect.x + rect.width &&
+        placed.x + w > rect.x &&
+        placed.y < rect.y + rect.height &&
+        placed.y + h > rect.y;
+      if (!overlaps) {
+        next.push(rect);
+        continue;
+      }
+      if (placed.x > rect.x) next.push({ ...rect, width: placed.x - rect.x });
+      if (placed.x + w < rect.x + rect.width) {
+        next.push({ ...rect, x: placed.x + w, width: rect.x + rect.width - placed.x - w });
+      }
+      if (placed.y > rect.y) next.push({ ...rect, height: placed.y - rect.y });
+      if (placed.y + h < rect.y + rect.height) {
+        next.push({ ...rect, y: placed.y + h, height: rect.y + rect.height - placed.y - h });
+      }
+    }
+    // Drop free rects contained in others; of identical ones keep the first
+    free = next.filter(
+      (rect, j) => !next.some((other, k) => k !== j && contains(other, rect) && (k < j || !contains(rect, other))),
+    );
+  }
+  return { rects, height };
+}
+
+/**
+ * Packs images onto one sheet with `padding` px around each, trying a few widths and keeping the smallest
+ * sheet. With `powerOfTwo` both sides of the sheet are powers of two.
+ */
+export function packSprites(sizes: Size[], padding: number, powerOfTwo: boolean): SpriteLayout {
+  if (sizes.length === 0) return { width: 0, height: 0, rects: [] };
+  // Every rect carries its right and bottom gap; the sheet adds the left and top one
+  const padded = sizes.map((size) => ({ width: size.width + padding, height: size.height + padding }));
+  const widest = Math.max(...padded.map((size) => size.width));
+  const area = padded.reduce((sum, size) => sum + size.width * size.height, 0);
+
+  const widths = new Set(WIDTH_FACTORS.map((factor) => Math.max(widest, Math.ceil(Math.sqrt(area) * factor))));
+  if (powerOfTwo) [...widths].forEach((width) => widths.add(nextPowerOfTwo(width + padding) - padding));
+
+  let best: SpriteLayout | null = null;
+  for (const binWidth of widths) {
+    if (binWidth < widest) continue;
+    const { rects, height } = packIntoWidth(padded, binWidth);
+    const usedWidth = Math.max(...rects.map((rect) => rect.x + rect.width));
+    const width = powerOfTwo ? nextPowerOfTwo(usedWidth + padding) : usedWidth + padding;
+    const sheetHeight = powerOfTwo ? nextPowerOfTwo(height + padding) : height + padding;
+    if (!best || width * sheetHeight < best.width * best.height) {
+      best = {
+        width,
+        height: sheetHeight,
+        rects: rects.map((rect, i) => ({
+          x: rect.x + padding,
+          y: rect.y + padding,
+          width: sizes[i].width,
+          height: sizes[i].height,
+        })),
+      };
+    }
+  }
+  return best as SpriteLayout;
+}
+
+/**
+ * CSS-safe names for the frames, made unique with -2, -3, ...
+ */
+export function spriteNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9_-]+/g, "-")
+        .replace(/^-+|-+$/g, "") || "sprite";
+    // Class names can't start with a digit
+    const safe = /^\d/.test(base) ? `s-${base}` : base;
+    let unique = safe;
+    for (let n = 2; used.has(unique); n++) unique = `${safe}-${n}`;
+    used.add(unique);
+    return unique;
+  });
+}
+
+/**
+ * Stylesheet with a base class for the sheet and one class per frame
+ */
+export function spriteCss(frames: SpriteFrame[], image: string, settings: ExportSettings["sprite"]): string {
+  const { prefix } = settings;
+  const lines = [
+    `.${prefix} {`,
+    `  display: inline-block;`,
+    `  background-image: url("${image}");`,
+    `  background-repeat: no-repeat;`,
+    `}`,
+    "",
+  ];
+  for (const frame of frames) {
+    lines.push(
+      `.${prefix}-${frame.name} {`,
+      `  width: ${frame.width}px;`,
+      `  height: ${frame.height}px;`,
+      `  background-position: ${frame.x ? `-${frame.x}px` : "0"} ${frame.y ? `-${frame.y}px` : "0"};`,
+      `}`,
+      "",
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Atlas in TexturePacker's JSON (hash) format, as read by Phaser, PixiJS and others
+ */
+export function spriteAtlas(frames: SpriteFrame[], image: string, sheet: Size): string {
+  const atlas = {
+    frames: Object.fromEntries(
+      frames.map(({ name, x, y, width, height }) => [
+        name,
+        {
+          frame: { x, y, w: width, h: height },
+          rotated: false,
+          trimmed: false,
+          spriteSourceSize: { x: 0, y: 0, w: width, h: height },
+          sourceSize: { w: width, h: height },
+        },
+      ]),
+    ),
+    meta: {
+      app: "Image Slicer",
+      version: "1.0",
+      image,
+      format: "RGBA8888",
+      size: { w: sheet.width, h: sheet.height },
+      scale: "1",
+    },
+  };
+  return JSON.stringify(atlas, null, 2);
+}
+
+/**
+ * Hidden SVG with a <symbol> per frame, each embedding its image, for `<svg><use href="#id"/></svg>`
+ */
+export function spriteSymbols(frames: (SpriteFrame & { dataUrl: string })[], settings: ExportSettings["sprite"]): string {
+  const symbols = frames.map(
+    ({ name, width, height, dataUrl }) =>
+      `  <symbol id="${settings.prefix}-${name}" viewBox="0 0 ${width} ${height}">\n` +
+      `    <image href="${dataUrl}" width="${width}" height="${height}"/>\n` +
+      `  </symbol>`,
+  );
+  return ['<svg xmlns="http://www.w3.org/2000/svg" style="display: none">', ...symbols, "</svg>", ""].join("\n");
+}
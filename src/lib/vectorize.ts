@@ -0,0 +1,311 @@
+import { CropRegion, RegionType } from "@/types/crop";
+
+type Color = [number, number, number];
+
+/** Region types that are offered vectorization; photos and illustrations trace into thousands of specks */
+export const VECTOR_TYPES: RegionType[] = ["icon", "logo"];
+
+export interface VectorizeResult {
+  svg: string;
+  /** Colors left after quantization */
+  colors: number;
+  /** Closed contours across all layers */
+  paths: number;
+}
+
+// Crops are traced at a longest side in this range: small icons are upscaled so their edges come out smooth
+const TRACE_MIN_SIZE = 128;
+const TRACE_MAX_SIZE = 512;
+// Pixels sampled for the palette, and rounds of k-means on them
+const MAX_SAMPLES = 16384;
+const KMEANS_ROUNDS = 10;
+// Vertices turning more sharply than this (in radians) stay corners instead of being rounded off
+const CORNER_ANGLE = Math.PI / 3;
+
+export function canVectorize(region: CropRegion): boolean {
+  return !!region.type && VECTOR_TYPES.includes(region.type);
+}
+
+/**
+ * What a fidelity of 0-100 means for the trace: more colors, less simplification and smaller specks kept
+ * the higher it is
+ */
+function traceOptions(fidelity: number) {
+  const f = Math.min(100, Math.max(0, fidelity)) / 100;
+  return {
+    colors: Math.round(2 + f * 14),
+    // Max distance in trace pixels a simplified outline may stray from the pixel edges
+    tolerance: 1.6 - f * 1.2,
+    // Contours enclosing less area (in trace pixels) are dropped
+    minArea: Math.round(2 + (1 - f) * 30),
+  };
+}
+
+function distanceSquared(data: Uint8ClampedArray, i: number, color: Color): number {
+  const r = data[i] - color[0];
+  const g = data[i + 1] - color[1];
+  const b = data[i + 2] - color[2];
+  return r * r + g * g + b * b;
+}
+
+function nearest(data: Uint8ClampedArray, i: number, palette: Color[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let c = 0; c < palette.length; c++) {
+    const distance = distanceSquared(data, i, palette[c]);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = c;
+    }
+  }
+  return best;
+}
+
+/**
+ * Reduces the opaque pixels to at most `count` colors with k-means, seeded with the mean and then the
+ * samples farthest from the colors so far. Labels are palette indices, -1 for (mostly) transparent pixels.
+ */
+function quantize(data: Uint8ClampedArray, pixels: number, count: number): { palette: Color[]; labels: Int16Array } {
+  const labels = new Int16Array(pixels).fill(-1);
+  const opaque: number[] = [];
+  for (let p = 0; p < pixels; p++) if (data[p * 4 + 3] >= 128) opaque.push(p * 4);
+  if (opaque.length === 0) return { palette: [], labels };
+
+  const step = Math.max(1, Math.floor(opaque.length / MAX_SAMPLES));
+  const samples = opaque.filter((_, i) => i % step === 0);
+
+  const mean: Color = [0, 0, 0];
+  for (const i of samples) for (let c = 0; c < 3; c++) mean[c] += data[i + c] / samples.length;
+  let palette: Color[] = [mean];
+  const closest = samples.map((i) => distanceSquared(data, i, mean));
+  while (palette.length < count) {
+    let farthest = 0;
+    for (let s = 1; s < samples.length; s++) if (closest[s] > closest[farthest]) farthest = s;
+    // Fewer distinct colors than asked for
+    if (closest[farthest] === 0) break;
+    const i = samples[farthest];
+    const color: Color = [data[i], data[i + 1], data[i + 2]];
+    palette.push(color);
+    samples.forEach((sample, s) => (closest[s] = Math.min(closest[s], distanceSquared(data, sample, color))));
+  }
+
+  for (let round = 0; round < KMEANS_ROUNDS; round++) {
+    const sums = palette.map(() => [0, 0, 0, 0]);
+    for (const i of samples) {
+      const sum = sums[nearest(data, i, palette)];
+      for (let c = 0; c < 3; c++) sum[c] += data[i + c];
+      sum[3]++;
+    }
+    // Colors nothing is closest to anymore are dropped
+    palette = sums.filter((sum) => sum[3] > 0).map((sum) => [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]]);
+  }
+
+  for (const i of opaque) labels[i / 4] = nearest(data, i, palette);
+  return { palette, labels };
+}
+
+/**
+ * Outlines of a binary mask along pixel edges, each a closed polygon of its corner points (x, y pairs).
+ * Outer edges run clockwise and holes counter-clockwise, so the even-odd rule fills them correctly.
+ */
+function traceContours(mask: Uint8Array, width: number, height: number): number[][] {
+  const stride = width + 1;
+  // Up to two outgoing edges per vertex (where two pixels touch diagonally), as the vertex they lead to
+  const out = new Int32Array(stride * (height + 1) * 2).fill(-1);
+  const addEdge = (from: number, to: number) => (out[from * 2] < 0 ? (out[from * 2] = to) : (out[from * 2 + 1] = to));
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!inside(x, y)) continue;
+      const topLeft = y * stride + x;
+      if (!inside(x, y - 1)) addEdge(topLeft, topLeft + 1);
+      if (!inside(x + 1, y)) addEdge(topLeft + 1, topLeft + stride + 1);
+      if (!inside(x, y + 1)) addEdge(topLeft + stride + 1, topLeft + stride);
+      if (!inside(x - 1, y)) addEdge(topLeft + stride, topLeft);
+    }
+  }
+
+  const contours: number[][] = [];
+  for (let start = 0; start < out.length / 2; start++) {
+    while (out[start * 2] >= 0 || out[start * 2 + 1] >= 0) {
+      const points: number[] = [];
+      let vertex = start;
+      let direction = 0;
+      do {
+        const slot = out[vertex * 2] >= 0 ? vertex * 2 : vertex * 2 + 1;
+        const next = out[slot];
+        out[slot] = -1;
+        // Only corners are kept; points along a straight run add nothing
+        if (next - vertex !== direction) points.push(vertex % stride, Math.floor(vertex / stride));
+        direction = next - vertex;
+        vertex = next;
+      } while (vertex !== start);
+      contours.push(points);
+    }
+  }
+  return contours;
+}
+
+function polygonArea(points: number[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i += 2) {
+    const j = (i + 2) % points.length;
+    area += points[i] * points[j + 1] - points[j] * points[i + 1];
+  }
+  return area / 2;
+}
+
+/**
+ * Replaces the pixel staircase of a traced outline with the midpoints of its edges. Corners between two
+ * edges longer than a pixel are real corners and stay.
+ */
+function unstair(points: number[]): number[] {
+  const count = points.length / 2;
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const [x, y] = [points[i * 2], points[i * 2 + 1]];
+    const next = ((i + 1) % count) * 2;
+    const previous = ((i + count - 1) % count) * 2;
+    const [nx, ny, px, py] = [points[next], points[next + 1], points[previous], points[previous + 1]];
+    if (Math.abs(x - px) + Math.abs(y - py) > 1 && Math.abs(nx - x) + Math.abs(ny - y) > 1) result.push(x, y);
+    result.push((x + nx) / 2, (y + ny) / 2);
+  }
+  return result;
+}
+
+/**
+ * Ramer-Douglas-Peucker on the open polyline between two point indices (inclusive), marking kept points
+ */
+function simplifyRange(points: number[], first: number, last: number, tolerance: number, keep: Uint8Array) {
+  const [ax, ay, bx, by] = [points[first * 2], points[first * 2 + 1], points[last * 2], points[last * 2 + 1]];
+  const length = Math.hypot(bx - ax, by - ay);
+  let farthest = -1;
+  let farthestDistance = tolerance;
+  for (let i = first + 1; i < last; i++) {
+    const [px, py] = [points[i * 2], points[i * 2 + 1]];
+    const distance =
+      length === 0 ? Math.hypot(px - ax, py - ay) : Math.abs((bx - ax) * (ay - py) - (ax - px) * (by - ay)) / length;
+    if (distance > farthestDistance) {
+      farthest = i;
+      farthestDistance = distance;
+    }
+  }
+  if (farthest < 0) return;
+  keep[farthest] = 1;
+  simplifyRange(points, first, farthest, tolerance, keep);
+  simplifyRange(points, farthest, last, tolerance, keep);
+}
+
+/**
+ * Simplifies a closed polygon, split at its first point and the point farthest from it
+ */
+function simplifyPolygon(points: number[], tolerance: number): number[] {
+  const count = points.length / 2;
+  if (count <= 4) return points;
+  let opposite = 1;
+  for (let i = 2; i < count; i++) {
+    const distance = Math.hypot(points[i * 2] - points[0], points[i * 2 + 1] - points[1]);
+    if (distance > Math.hypot(points[opposite * 2] - points[0], points[opposite * 2 + 1] - points[1])) opposite = i;
+  }
+  const closed = [...points, points[0], points[1]];
+  const keep = new Uint8Array(count + 1);
+  keep[0] = 1;
+  keep[opposite] = 1;
+  simplifyRange(closed, 0, opposite, tolerance, keep);
+  simplifyRange(closed, opposite, count, tolerance, keep);
+  return points.filter((_, i) => keep[i >> 1]);
+}
+
+/**
+ * Path data for a closed polygon: sharp vertices stay corners, the others become quadratic curves through
+ * the midpoints of their edges
+ */
+function polygonPath(points: number[], scale: number): string {
+  const count = points.length / 2;
+  const at = (i: number): [number, number] => [points[(i % count) * 2] * scale, points[(i % count) * 2 + 1] * scale];
+  const mid = (i: number): [number, number] => {
+    const [ax, ay] = at(i);
+    const [bx, by] = at(i + 1);
+    return [(ax + bx) / 2, (ay + by) / 2];
+  };
+  const format = ([x, y]: [number, number]) => `${Math.round(x * 100) / 100} ${Math.round(y * 100) / 100}`;
+  const smooth = Array.from({ length: count }, (_, i) => {
+    const [px, py] = at(i + count - 1);
+    const [x, y] = at(i);
+    const [nx, ny] = at(i + 1);
+    // Angle between the incoming and outgoing edge, from their cross and dot product
+    const cross = (x - px) * (ny - y) - (y - py) * (nx - x);
+    const dot = (x - px) * (nx - x) + (y - py) * (ny - y);
+    return Math.abs(Math.atan2(cross, dot)) < CORNER_ANGLE;
+  });
+
+  let d = `M${format(mid(count - 1))}`;
+  for (let i = 0; i < count; i++) {
+    if (smooth[i]) {
+      d += `Q${format(at(i))} ${format(mid(i))}`;
+    } else {
+      d += `L${format(at(i))}`;
+      if (smooth[(i + 1) % count]) d += `L${format(mid(i))}`;
+    }
+  }
+  return `${d}Z`;
+}
+
+function toHex(color: Color): string {
+  return `#${color.map((c) => Math.round(c).toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * Traces a rendered crop into an SVG of flat color shapes, at the crop's pixel size. Colors are stacked from
+ * the most to the least common, each layer also covering the ones above it, so shapes never leave gaps.
+ */
+export function vectorizeCanvas(source: HTMLCanvasElement, fidelity: number): VectorizeResult {
+  const options = traceOptions(fidelity);
+  const longestSide = Math.max(source.width, source.height);
+  const scale = Math.min(TRACE_MAX_SIZE, Math.max(TRACE_MIN_SIZE, longestSide)) / longestSide;
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const { palette, labels } = quantize(data, width * height, options.colors);
+  const counts = palette.map(() => 0);
+  labels.forEach((label) => label >= 0 && counts[label]++);
+  const order = palette.map((_, i) => i).sort((a, b) => counts[b] - counts[a]);
+  const rank = new Int16Array(palette.length);
+  order.forEach((color, i) => (rank[color] = i));
+
+  // Coordinates go back to crop pixels
+  const outputScale = source.width / width;
+  const paths: string[] = [];
+  let contourCount = 0;
+  const mask = new Uint8Array(width * height);
+  for (let layer = 0; layer < order.length; layer++) {
+    for (let p = 0; p < mask.length; p++) mask[p] = labels[p] >= 0 && rank[labels[p]] >= layer ? 1 : 0;
+    const contours = traceContours(mask, width, height)
+      .filter((contour) => Math.abs(polygonArea(contour)) >= options.minArea)
+      .map((contour) => simplifyPolygon(unstair(contour), options.tolerance))
+      .filter((contour) => contour.length >= 6);
+    if (contours.length === 0) continue;
+    contourCount += contours.length;
+    const d = contours.map((contour) => polygonPath(contour, outputScale)).join("");
+    paths.push(`  <path fill="${toHex(palette[order[layer]])}" fill-rule="evenodd" d="${d}"/>`);
+  }
+
+  const size = `width="${source.width}" height="${source.height}" viewBox="0 0 ${source.width} ${source.height}"`;
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" ${size}>`,
+    ...paths,
+    "</svg>",
+    "",
+  ].join("\n");
+  return { svg, colors: paths.length, paths: contourCount };
+}
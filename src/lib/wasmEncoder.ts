@@ -0,0 +1,90 @@
+import { EncoderSettings } from "@/types/export";
+import { quantizeToPalette } from "@/lib/paletteQuantizer";
+
+/** Formats encoded with WebAssembly codecs instead of canvas.toBlob */
+export type WasmFormat = "avif" | "jxl" | "png";
+
+export type EncoderRequest = {
+  id: number;
+  format: WasmFormat;
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+  settings: EncoderSettings;
+};
+export type EncoderResponse = { id: number; type: "result"; buffer: ArrayBuffer } | { id: number; type: "error"; message: string };
+
+/**
+ * Encodes RGBA pixels. The codecs are loaded on first use, so formats that are never exported cost nothing.
+ */
+export async function encodeWithWasm(format: WasmFormat, image: ImageData, settings: EncoderSettings): Promise<ArrayBuffer> {
+  switch (format) {
+    case "avif": {
+      const { default: encode } = await import("@jsquash/avif/encode.js");
+      return encode(image, { quality: settings.avif.quality, speed: 10 - settings.avif.effort });
+    }
+    case "jxl": {
+      const { default: encode } = await import("@jsquash/jxl/encode.js");
+      return encode(image, { quality: settings.jxl.quality, effort: settings.jxl.effort });
+    }
+    case "png": {
+      // oxipng writes an indexed PNG on its own once the image has at most 256 colors
+      if (settings.png.colors > 0) quantizeToPalette(image.data, settings.png.colors);
+      const { default: optimise } = await import("@jsquash/oxipng/optimise.js");
+      return optimise(image, { level: settings.png.effort, optimiseAlpha: true });
+    }
+  }
+}
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (buffer: ArrayBuffer) => void; reject: (error: Error) => void }>();
+
+/**
+ * The encoder worker is shared by all exports and kept alive, so codecs are compiled only once
+ */
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL("../workers/encoder.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<EncoderResponse>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return;
+    pending.delete(message.id);
+    if (message.type === "result") request.resolve(message.buffer);
+    else request.reject(new Error(message.message));
+  };
+  worker.onerror = (event) => {
+    // A crashed worker fails everything in flight; the next encode starts a new one
+    worker?.terminate();
+    worker = null;
+    for (const request of pending.values()) request.reject(new Error(event.message || "Encoder crashed"));
+    pending.clear();
+  };
+  return worker;
+}
+
+/**
+ * Encodes a canvas with a WASM codec in a worker (on the main thread where workers are unavailable)
+ */
+export async function encodeCanvas(
+  format: WasmFormat,
+  ctx: CanvasRenderingContext2D,
+  settings: EncoderSettings,
+): Promise<Blob> {
+  const { width, height } = ctx.canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const type = `image/${format}`;
+
+  if (typeof Worker === "undefined") {
+    return new Blob([await encodeWithWasm(format, image, settings)], { type });
+  }
+
+  const buffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const request: EncoderRequest = { id, format, width, height, buffer: image.data.buffer as ArrayBuffer, settings };
+    getWorker().postMessage(request, [request.buffer]);
+  });
+  return new Blob([buffer], { type });
+}
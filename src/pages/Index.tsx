@@ -1,35 +1,225 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { Helmet } from "react-helmet-async";
+import { useSearchParams } from "react-router-dom";
+import { AppHeader } from "@/components/AppHeader";
 import { ImageUploader } from "@/components/ImageUploader";
+import { ImageQueue } from "@/components/ImageQueue";
 import { CropCanvas } from "@/components/CropCanvas";
 import { CropPreview } from "@/components/CropPreview";
 import { ActionBar } from "@/components/ActionBar";
+import { SelectionActions } from "@/components/SelectionActions";
+import { RejectedRegions } from "@/components/RejectedRegions";
+import { DuplicateGroups } from "@/components/DuplicateGroups";
+import { ExportSettingsDialog } from "@/components/ExportSettingsDialog";
+import { CompareDialog } from "@/components/CompareDialog";
+import { SpriteSheetDialog } from "@/components/SpriteSheetDialog";
+import { VectorizeDialog } from "@/components/VectorizeDialog";
+import { canVectorize } from "@/lib/vectorize";
 import { useCropEditor } from "@/hooks/useCropEditor";
-import { cropImage, downloadBlob, downloadAllAsZip } from "@/lib/imageUtils";
-import { supabase } from "@/integrations/supabase/client";
+import { useImageQueue } from "@/hooks/useImageQueue";
+import { useProjectAutosave } from "@/hooks/useProjectAutosave";
+import { useDuplicateGroups } from "@/hooks/useDuplicateGroups";
+import { CropRegion, DetectionMode, RegionShape } from "@/types/crop";
+import { SourceImage } from "@/types/batch";
+import { ExportSettings } from "@/types/export";
+import { cropImage, createSourceImage, downloadBlob, downloadAllAsZip, downloadBatchAsZip, downloadSpriteSheet } from "@/lib/imageUtils";
+import { DetectionError, isAbortError, runDetection } from "@/lib/detection";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { snapRegionsToContent } from "@/lib/snapToContent";
+import { shapeUpdates } from "@/lib/regionShapes";
+import { perspectiveUpdates } from "@/lib/regionTransform";
+import { DEFAULT_EXPORT_SETTINGS } from "@/lib/exportVariants";
+import { nameValues, regionExportPath } from "@/lib/exportNaming";
+import { DEFAULT_REGION_FILTER, RegionFilter, matchesRegionFilter } from "@/lib/regionTypes";
+import { createProjectId, getCurrentProjectId, getProject, setCurrentProjectId } from "@/lib/projectStore";
 import { toast } from "sonner";
-import { Sparkles, ImageUpscale, Download, Wand2 } from "lucide-react";
+import { Sparkles, Download, Wand2 } from "lucide-react";
+
+// How many images are sent to the detection service at the same time in batch mode
+const BATCH_CONCURRENCY = 3;
+
+/**
+ * Warns about exported files that are still larger than the file-size budget
+ */
+function notifyOverBudget(files: string[]) {
+  toast.warning(`${files.length} file(s) exceed the size limit`, {
+    description: files.length > 5 ? `${files.slice(0, 5).join(", ")}, ...` : files.join(", "),
+  });
+}
+
+/**
+ * Warns about regions whose filenames collided and were renamed in the ZIP
+ */
+function notifyRenamed(renamed: { from: string; to: string }[]) {
+  const lines = renamed.map(({ from, to }) => `${from} → ${to}`);
+  toast.warning(`${renamed.length} filename collision(s) resolved by renaming`, {
+    description: lines.length > 5 ? `${lines.slice(0, 5).join(", ")}, ...` : lines.join(", "),
+  });
+}
 
 export default function Index() {
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imageSrc, setImageSrc] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isBatchDetecting, setIsBatchDetecting] = useState(false);
+  const [detectionMode, setDetectionMode] = useState<DetectionMode>("ai");
   const [originalDimensions, setOriginalDimensions] = useState({ width: 0, height: 0 });
   const [displayDimensions, setDisplayDimensions] = useState({ width: 0, height: 0 });
-  const [isDetecting, setIsDetecting] = useState(false);
-  const [detectionProgress, setDetectionProgress] = useState(0);
-  const [detectionStep, setDetectionStep] = useState("");
   const [scrollToRegionId, setScrollToRegionId] = useState<string | null>(null);
+  const [regionFilter, setRegionFilter] = useState<RegionFilter>(DEFAULT_REGION_FILTER);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [isExportSettingsOpen, setIsExportSettingsOpen] = useState(false);
+  const [compareRegionId, setCompareRegionId] = useState<string | null>(null);
+  const [vectorizeRegionId, setVectorizeRegionId] = useState<string | null>(null);
+  const [isSpriteSheetOpen, setIsSpriteSheetOpen] = useState(false);
 
-  const { regions, selectedId, setSelectedId, updateRegion, deleteRegion, addRegion, resetRegions } = useCropEditor();
+  const { images, addFiles, updateImage, removeImage, replaceImages } = useImageQueue();
 
-  const handleImageSelect = useCallback(
-    (file: File, preview: string) => {
-      setImageFile(file);
-      setImageSrc(preview);
-      resetRegions([]);
-      toast.success("Image uploaded successfully!");
+  const {
+    regions,
+    selectedIds,
+    selectRegion,
+    selectRegions,
+    updateRegion,
+    updateRegions,
+    deleteRegion,
+    deleteRegions,
+    moveRegions,
+    renameRegions,
+    addRegion,
+    replaceRegions,
+    resetRegions,
+    beginGesture,
+    endGesture,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useCropEditor();
+
+  // The editor owns the regions of the active image; queue entries hold everyone else's.
+  // Detection can finish after the user switched images, so results are routed through this ref.
+  const activeIdRef = useRef(activeId);
+  activeIdRef.current = activeId;
+  // In-flight (and queued) detections by image id, so they can be cancelled
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+
+  const activeImage = images.find((image) => image.id === activeId) ?? null;
+  const imageFile = activeImage?.file ?? null;
+  const imageSrc = activeImage?.src ?? null;
+  const isDetecting = activeImage?.status === "detecting";
+
+  // Queue with the live editor regions merged in, for saving and exporting
+  const currentImages = useMemo(
+    () => images.map((image) => (image.id === activeId ? { ...image, regions } : image)),
+    [images, activeId, regions],
+  );
+
+  useProjectAutosave(projectId, currentImages, exportSettings);
+
+  // Regions hidden by the confidence/type filter are neither shown nor exported
+  const visibleRegions = useMemo(
+    () => regions.filter((region) => matchesRegionFilter(region, regionFilter)),
+    [regions, regionFilter],
+  );
+  const duplicateGroups = useDuplicateGroups(
+    imageSrc,
+    visibleRegions,
+    originalDimensions,
+    displayDimensions,
+    exportSettings.dedupe.threshold,
+  );
+
+  // Open the project from the URL (?project=) or restore the last session after a reload or crash
+  useEffect(() => {
+    const requestedId = searchParams.get("project") ?? getCurrentProjectId();
+    if (!requestedId || requestedId === projectId) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const project = await getProject(requestedId);
+        if (cancelled) return;
+        if (!project) {
+          setCurrentProjectId(null);
+          setSearchParams({}, { replace: true });
+          return;
+        }
+        const restored = await Promise.all(
+          project.images.map((image) =>
+            createSourceImage(new File([image.image], image.imageName, { type: image.image.type }), image),
+          ),
+        );
+        if (cancelled) return;
+        setProjectId(project.id);
+        setCurrentProjectId(project.id);
+        setSearchParams({ project: project.id }, { replace: true });
+        replaceImages(restored);
+        // Projects saved by older versions lack newer settings
+        setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...project.exportSettings });
+        setActiveId(restored[0]?.id ?? null);
+        resetRegions(restored[0]?.regions ?? []);
+      } catch (error) {
+        console.error("Failed to restore project:", error);
+        toast.error("Failed to open the saved project");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams, setSearchParams, projectId, replaceImages, resetRegions]);
+
+  /**
+   * Makes another queued image the one shown in the editor, keeping the current image's edits
+   */
+  const activateImage = useCallback(
+    (id: string | null) => {
+      if (id === activeId) return;
+      if (activeId) updateImage(activeId, { regions });
+      setActiveId(id);
+      resetRegions(images.find((image) => image.id === id)?.regions ?? []);
+    },
+    [activeId, regions, images, updateImage, resetRegions],
+  );
+
+  const handleFilesSelect = useCallback(
+    async (files: File[]) => {
+      try {
+        const added = await addFiles(files);
+        if (added.length === 0) return;
+
+        if (!projectId) {
+          const id = createProjectId();
+          setProjectId(id);
+          setCurrentProjectId(id);
+          setSearchParams({ project: id }, { replace: true });
+        }
+        if (!activeId) {
+          setActiveId(added[0].id);
+          resetRegions([]);
+        }
+        toast.success(added.length === 1 ? "Image uploaded successfully!" : `${added.length} images added to the queue`);
+      } catch (error) {
+        console.error("Upload error:", error);
+        toast.error("Failed to read the image");
+      }
     },
-    [resetRegions],
+    [addFiles, projectId, activeId, resetRegions, setSearchParams],
+  );
+
+  const handleRemoveImage = useCallback(
+    (id: string) => {
+      if (id === activeId) {
+        const remaining = images.filter((image) => image.id !== id);
+        const index = images.findIndex((image) => image.id === id);
+        const next = remaining[Math.min(index, remaining.length - 1)] ?? null;
+        setActiveId(next?.id ?? null);
+        resetRegions(next?.regions ?? []);
+      }
+      removeImage(id);
+    },
+    [activeId, images, removeImage, resetRegions],
   );
 
   const handleDimensionsReady = useCallback(
@@ -40,74 +230,161 @@ export default function Index() {
     [],
   );
 
-  const handleDetect = useCallback(async () => {
-    if (!imageSrc) return;
-
-    setIsDetecting(true);
-    setDetectionProgress(0);
-    setDetectionStep("Preparing image...");
-
-    // Start progress simulation - slow progression that only pauses at 99%
-    const progressInterval = setInterval(() => {
-      setDetectionProgress((prev) => {
-        if (prev < 30) {
-          setDetectionStep("Preparing image...");
-          return prev + 0.4; // 0→30% in ~15 seconds (was 7.5s)
-        } else if (prev < 70) {
-          setDetectionStep("Analyzing content...");
-          return prev + 0.25; // 30→70% in ~32 seconds (was 16s)
-        } else if (prev < 99) {
-          setDetectionStep("Detecting regions...");
-          return prev + 0.1; // 70→99% in ~58 seconds (was 29s)
+  /**
+   * Runs detection for one queued image and stores the result on it (or in the editor if it is active).
+   * Resolves to null when the detection was cancelled.
+   */
+  const detectImage = useCallback(
+    async (image: SourceImage) => {
+      const controller = abortControllersRef.current.get(image.id) ?? new AbortController();
+      abortControllersRef.current.set(image.id, controller);
+      if (controller.signal.aborted) {
+        // Cancelled while still queued
+        abortControllersRef.current.delete(image.id);
+        updateImage(image.id, { status: "pending", progress: 0, step: "" });
+        return null;
+      }
+
+      updateImage(image.id, { status: "detecting", error: undefined, previewRegions: [], rejected: undefined });
+
+      try {
+        const result = await runDetection(detectionMode, image.src, image.width, image.height, {
+          onProgress: (progress, step) => updateImage(image.id, { progress, step }),
+          onRegions: (previewRegions) => updateImage(image.id, { previewRegions }),
+          signal: controller.signal,
+        });
+
+        // Models and heuristics both leave padding or clip edges; fit every box to the pixels
+        if (result.regions.length > 0) {
+          updateImage(image.id, { progress: 99, step: "Tightening bounds..." });
+          try {
+            result.regions = await snapRegionsToContent(image.src, result.regions);
+          } catch (error) {
+            console.error("Snap to content failed:", error);
+          }
         }
-        return 99;
-      });
-    }, 200);
 
-    try {
-      const { data, error } = await supabase.functions.invoke("detect-images", {
-        body: {
-          imageBase64: imageSrc,
-          width: displayDimensions.width,
-          height: displayDimensions.height,
-        },
-      });
+        const updates: Partial<SourceImage> = {
+          status: "done",
+          progress: 100,
+          step: "Complete!",
+          previewRegions: undefined,
+          rejected: result.rejected,
+        };
 
-      clearInterval(progressInterval);
-      setDetectionProgress(100);
-      setDetectionStep("Complete!");
+        // Update pasted image with AI-generated friendly name
+        if (result.imageName && image.file.name.startsWith("pasted-image-")) {
+          const extension = image.file.name.split(".").pop() || "png";
+          updates.file = new File([image.file], `${result.imageName}.${extension}`, {
+            type: image.file.type,
+          });
+        }
 
-      if (error) throw error;
+        if (result.regions && result.regions.length > 0) {
+          if (activeIdRef.current === image.id) {
+            // Undoable, so a re-scan never throws away manual edits for good
+            replaceRegions(result.regions);
+          } else {
+            updates.regions = result.regions;
+          }
+        }
 
-      if (data.error) {
-        toast.error(data.error);
-        return;
+        updateImage(image.id, updates);
+        return result;
+      } catch (error) {
+        if (isAbortError(error)) {
+          updateImage(image.id, { status: "pending", progress: 0, step: "", previewRegions: undefined });
+          return null;
+        }
+        const message = error instanceof DetectionError ? error.message : "Failed to detect images. Please try again.";
+        updateImage(image.id, { status: "error", error: message, progress: 0, previewRegions: undefined });
+        throw error;
+      } finally {
+        abortControllersRef.current.delete(image.id);
       }
+    },
+    [detectionMode, updateImage, replaceRegions],
+  );
 
-      // Update pasted image with AI-generated friendly name
-      if (data.imageName && imageFile?.name.startsWith("pasted-image-")) {
-        const extension = imageFile.name.split(".").pop() || "png";
-        const newFile = new File([imageFile], `${data.imageName}.${extension}`, {
-          type: imageFile.type,
-        });
-        setImageFile(newFile);
-      }
+  const cancelDetection = useCallback((ids: string[]) => {
+    ids.forEach((id) => abortControllersRef.current.get(id)?.abort());
+  }, []);
 
-      if (data.regions && data.regions.length > 0) {
-        resetRegions(data.regions);
-        toast.success(`Selected ${data.regions.length} image(s)!`);
+  const handleDetect = useCallback(async () => {
+    if (!activeImage) return;
+
+    try {
+      const result = await detectImage(activeImage);
+      if (!result) {
+        toast.info("Detection cancelled");
+      } else if (result.regions && result.regions.length > 0) {
+        toast.success(`Selected ${result.regions.length} image(s)!`);
       } else {
         toast.info("No embedded images detected. Try adding regions manually.");
       }
     } catch (error) {
-      clearInterval(progressInterval);
       console.error("Detection error:", error);
-      toast.error("Failed to detect images. Please try again.");
-    } finally {
-      setIsDetecting(false);
-      setDetectionProgress(0);
+      toast.error(error instanceof DetectionError ? error.message : "Failed to detect images. Please try again.");
+    }
+  }, [activeImage, detectImage]);
+
+  const handleDetectAll = useCallback(async () => {
+    const targets = images.filter((image) => image.status === "pending" || image.status === "error");
+    if (targets.length === 0) return;
+
+    setIsBatchDetecting(true);
+    targets.forEach((image) => {
+      abortControllersRef.current.set(image.id, new AbortController());
+      updateImage(image.id, { status: "queued", progress: 0, step: "Waiting..." });
+    });
+
+    const outcomes = await mapWithConcurrency(targets, BATCH_CONCURRENCY, (image) =>
+      detectImage(image).then(
+        (result) => (result ? "done" : "cancelled"),
+        (error) => {
+          console.error(`Detection error for ${image.file.name}:`, error);
+          return "failed";
+        },
+      ),
+    );
+
+    setIsBatchDetecting(false);
+    const failed = outcomes.filter((outcome) => outcome === "failed").length;
+    const cancelled = outcomes.filter((outcome) => outcome === "cancelled").length;
+    const scanned = targets.length - failed - cancelled;
+    if (cancelled > 0) {
+      toast.info(`Scanned ${scanned} of ${targets.length} images, ${cancelled} cancelled`);
+    } else if (failed > 0) {
+      toast.warning(`Scanned ${scanned} of ${targets.length} images, ${failed} failed`);
+    } else {
+      toast.success(`Scanned ${targets.length} images`);
     }
-  }, [imageSrc, displayDimensions, resetRegions]);
+  }, [images, updateImage, detectImage]);
+
+  const handleSnapRegion = useCallback(
+    async (regionId: string) => {
+      const region = regions.find((r) => r.id === regionId);
+      if (!imageSrc || !region) return;
+
+      try {
+        const [snapped] = await snapRegionsToContent(imageSrc, [region]);
+        if (snapped === region) {
+          toast.info("Region already fits its content");
+          return;
+        }
+        const { x, y, width, height } = snapped;
+        updateRegion(regionId, { x, y, width, height });
+      } catch (error) {
+        console.error("Snap to content error:", error);
+        toast.error("Failed to snap region to content");
+      }
+    },
+    [imageSrc, regions, updateRegion],
+  );
+
+  const handleCancelAll = useCallback(() => {
+    cancelDetection(Array.from(abortControllersRef.current.keys()));
+  }, [cancelDetection]);
 
   const handleDownloadSingle = useCallback(
     async (regionId: string) => {
@@ -124,50 +401,171 @@ export default function Index() {
           originalDimensions.height,
           displayDimensions.width,
           displayDimensions.height,
+          undefined,
+          exportSettings,
         );
-        const baseName = region.filename || region.label || `crop-${regions.indexOf(region) + 1}`;
-        const cleanName = baseName.replace(/\.(png|jpg|jpeg|webp)$/i, "");
-        downloadBlob(result.blob, `${cleanName}.${result.extension}`);
+        const project = imageFile?.name.replace(/\.[^/.]+$/, "") ?? "image";
+        // A single file has no folder to go into
+        const naming = { ...exportSettings.naming, folders: [] };
+        const values = await nameValues(region, regions.findIndex((r) => r.id === region.id), project, result, naming);
+        const path = regionExportPath(region, values, naming);
+        const filename = `${path.split("/").pop()}.${result.extension}`;
+        downloadBlob(result.blob, filename);
         toast.success("Image downloaded!");
+        if (result.overBudget) notifyOverBudget([filename]);
       } catch (error) {
         console.error("Download error:", error);
         toast.error("Failed to download image");
       }
     },
-    [imageSrc, regions, originalDimensions, displayDimensions],
+    [imageSrc, imageFile, regions, originalDimensions, displayDimensions, exportSettings],
+  );
+
+  const downloadRegionsAsZip = useCallback(
+    async (regionsToExport: CropRegion[]) => {
+      if (!imageSrc || !imageFile || regionsToExport.length === 0) return;
+
+      try {
+        toast.loading("Creating ZIP file...");
+        const { overBudget, renamed } = await downloadAllAsZip(
+          imageSrc,
+          imageFile,
+          regionsToExport,
+          originalDimensions.width,
+          originalDimensions.height,
+          displayDimensions.width,
+          displayDimensions.height,
+          exportSettings,
+          regions,
+        );
+        toast.dismiss();
+        toast.success("ZIP file downloaded!");
+        if (overBudget.length > 0) notifyOverBudget(overBudget);
+        if (renamed.length > 0) notifyRenamed(renamed);
+      } catch (error) {
+        console.error("Batch download error:", error);
+        toast.dismiss();
+        toast.error("Failed to create ZIP file");
+      }
+    },
+    [imageSrc, imageFile, regions, originalDimensions, displayDimensions, exportSettings],
   );
 
   const handleDownloadAll = useCallback(async () => {
-    if (!imageSrc || !imageFile || regions.length === 0) return;
+    if (currentImages.length <= 1) {
+      await downloadRegionsAsZip(visibleRegions);
+      return;
+    }
 
     try {
       toast.loading("Creating ZIP file...");
-      await downloadAllAsZip(
+      const { overBudget, renamed } = await downloadBatchAsZip(
+        currentImages,
+        `batch-${currentImages.length}-images-cropped`,
+        exportSettings,
+        (region) => matchesRegionFilter(region, regionFilter),
+      );
+      toast.dismiss();
+      toast.success("ZIP file downloaded!");
+      if (overBudget.length > 0) notifyOverBudget(overBudget);
+      if (renamed.length > 0) notifyRenamed(renamed);
+    } catch (error) {
+      console.error("Batch download error:", error);
+      toast.dismiss();
+      toast.error("Failed to create ZIP file");
+    }
+  }, [currentImages, downloadRegionsAsZip, visibleRegions, regionFilter, exportSettings]);
+
+  const handleDownloadSelected = useCallback(
+    () => downloadRegionsAsZip(regions.filter((r) => selectedIds.includes(r.id))),
+    [downloadRegionsAsZip, regions, selectedIds],
+  );
+
+  const handleDownloadSpriteSheet = useCallback(async () => {
+    if (!imageSrc || !imageFile) return;
+    try {
+      toast.loading("Packing sprite sheet...");
+      const { width, height } = await downloadSpriteSheet(
         imageSrc,
-        imageFile,
-        regions,
+        regions.filter((r) => selectedIds.includes(r.id)),
         originalDimensions.width,
         originalDimensions.height,
         displayDimensions.width,
         displayDimensions.height,
+        exportSettings,
+        `${imageFile.name.replace(/\.[^.]+$/, "")}-sprite`,
       );
       toast.dismiss();
-      toast.success("ZIP file downloaded!");
+      toast.success(`Sprite sheet downloaded (${width}×${height})`);
     } catch (error) {
-      console.error("Batch download error:", error);
+      console.error("Sprite sheet error:", error);
       toast.dismiss();
-      toast.error("Failed to create ZIP file");
+      toast.error("Failed to create sprite sheet");
     }
-  }, [imageSrc, imageFile, regions, originalDimensions, displayDimensions]);
+  }, [imageSrc, imageFile, regions, selectedIds, originalDimensions, displayDimensions, exportSettings]);
+
+  const selectedShape = useMemo(() => {
+    const shapes = new Set(regions.filter((r) => selectedIds.includes(r.id)).map((r) => r.shape ?? "rectangle"));
+    return shapes.size === 1 ? [...shapes][0] : null;
+  }, [regions, selectedIds]);
+
+  const handleShapeChange = useCallback(
+    (shape: RegionShape) => {
+      updateRegions(
+        Object.fromEntries(regions.filter((r) => selectedIds.includes(r.id)).map((r) => [r.id, shapeUpdates(r, shape)])),
+      );
+    },
+    [regions, selectedIds, updateRegions],
+  );
+
+  const selectedTransform = useMemo(() => {
+    const selected = regions.filter((r) => selectedIds.includes(r.id));
+    return {
+      perspective: selected.length > 0 && selected.every((r) => r.quad?.length === 4),
+      rotated: selected.some((r) => !!r.rotation),
+    };
+  }, [regions, selectedIds]);
+
+  const handlePerspectiveChange = useCallback(
+    (enabled: boolean) => {
+      updateRegions(
+        Object.fromEntries(
+          regions.filter((r) => selectedIds.includes(r.id)).map((r) => [r.id, perspectiveUpdates(r, enabled)]),
+        ),
+      );
+    },
+    [regions, selectedIds, updateRegions],
+  );
+
+  const handleResetRotation = useCallback(() => {
+    updateRegions(Object.fromEntries(selectedIds.map((id) => [id, { rotation: undefined }])));
+  }, [selectedIds, updateRegions]);
+
+  const handlePreviewSelect = useCallback(
+    (regionId: string, e: React.MouseEvent) => {
+      if (e.shiftKey || e.metaKey || e.ctrlKey) {
+        selectRegion(regionId, "toggle");
+        return;
+      }
+      selectRegion(regionId);
+      setScrollToRegionId(regionId);
+      setTimeout(() => setScrollToRegionId(null), 500);
+    },
+    [selectRegion],
+  );
 
   const handleReset = useCallback(() => {
-    setImageFile(null);
-    setImageSrc(null);
+    // The project stays saved and can be reopened from the project list
+    setProjectId(null);
+    setCurrentProjectId(null);
+    setSearchParams({}, { replace: true });
+    replaceImages([]);
+    setActiveId(null);
     resetRegions([]);
     setOriginalDimensions({ width: 0, height: 0 });
     setDisplayDimensions({ width: 0, height: 0 });
     toast.info("Reset complete");
-  }, [resetRegions]);
+  }, [replaceImages, resetRegions, setSearchParams]);
 
   return (
     <>
@@ -180,21 +578,7 @@ export default function Index() {
       </Helmet>
 
       <div className="min-h-screen bg-background">
-        <header className="relative sticky top-0 z-50 overflow-hidden border-b border-border/30">
-          {/* Animated gradient background */}
-          <div className="absolute inset-0 bg-gradient-to-r from-blue-600/20 via-cyan-500/15 to-emerald-500/20 bg-[length:200%_100%] animate-gradient-shift" />
-          <div className="absolute inset-0 bg-background/85 backdrop-blur-xl" />
-
-          <div className="relative container py-8">
-            <div className="flex flex-col items-center justify-center text-center md:text-left">
-              <h1 className="flex items-center gap-4 text-4xl md:text-3xl font-bold">
-                <ImageUpscale />
-                <span className="textGradientBlueToGreen">Image Slicer</span>
-              </h1>
-              <p className="text-sm text-muted-foreground mt-1">Extract images from screenshots & mockups</p>
-            </div>
-          </div>
-        </header>
+        <AppHeader />
 
         <main className="container py-8 space-y-8">
           {!imageSrc ? (
@@ -205,7 +589,7 @@ export default function Index() {
                 </p>
               </div>
 
-              <ImageUploader onImageSelect={handleImageSelect} />
+              <ImageUploader onFilesSelect={handleFilesSelect} />
 
               <div className="grid grid-cols-3 gap-6 pt-8">
                 <div className="text-center space-y-2">
@@ -237,27 +621,60 @@ export default function Index() {
                 onDetect={handleDetect}
                 onDownloadAll={handleDownloadAll}
                 onReset={handleReset}
+                detectionMode={detectionMode}
+                onDetectionModeChange={setDetectionMode}
+                onUndo={undo}
+                onRedo={redo}
+                canUndo={canUndo}
+                canRedo={canRedo}
+                regions={regions}
+                regionFilter={regionFilter}
+                onRegionFilterChange={setRegionFilter}
+                onOpenExportSettings={() => setIsExportSettingsOpen(true)}
                 isDetecting={isDetecting}
-                hasRegions={regions.length > 0}
+                hasRegions={currentImages.some((image) => image.regions.length > 0)}
                 hasImage={!!imageSrc}
                 imageName={imageFile?.name}
               />
 
+              <ImageQueue
+                images={currentImages}
+                activeId={activeId}
+                isProcessing={isBatchDetecting}
+                onSelect={activateImage}
+                onRemove={handleRemoveImage}
+                onAddFiles={handleFilesSelect}
+                onDetectAll={handleDetectAll}
+                onCancelAll={handleCancelAll}
+              />
+
               <div className="grid lg:grid-cols-[1fr,320px] gap-6">
                 <div className="space-y-4 max-w-5xl">
                   <div className="glass rounded-xl p-4">
                     <CropCanvas
+                      key={activeId}
                       imageSrc={imageSrc}
-                      regions={regions}
-                      selectedId={selectedId}
+                      regions={visibleRegions}
+                      selectedIds={selectedIds}
                       scrollToRegionId={scrollToRegionId}
                       isDetecting={isDetecting}
-                      detectionProgress={detectionProgress}
-                      detectionStep={detectionStep}
-                      onSelectRegion={setSelectedId}
+                      detectionProgress={activeImage.progress}
+                      detectionStep={activeImage.step}
+                      previewRegions={activeImage.previewRegions}
+                      onCancelDetection={() => cancelDetection([activeImage.id])}
+                      onSelectRegion={selectRegion}
+                      onSelectRegions={selectRegions}
                       onUpdateRegion={updateRegion}
+                      onUpdateRegions={updateRegions}
+                      onMoveRegions={moveRegions}
                       onDeleteRegion={deleteRegion}
+                      onDeleteRegions={deleteRegions}
+                      onSnapRegion={handleSnapRegion}
                       onAddRegion={addRegion}
+                      onGestureStart={beginGesture}
+                      onGestureEnd={endGesture}
+                      onUndo={undo}
+                      onRedo={redo}
                       onDimensionsReady={handleDimensionsReady}
                     />
                   </div>
@@ -265,14 +682,56 @@ export default function Index() {
 
                 <div className="space-y-4">
                   <div className="glass rounded-xl p-4">
-                    <h3 className="font-semibold text-foreground mb-4">Selected Images ({regions.length})</h3>
+                    <h3 className="font-semibold text-foreground mb-4">
+                      Selected Images ({visibleRegions.length}
+                      {visibleRegions.length < regions.length && ` of ${regions.length}`})
+                    </h3>
+                    {selectedIds.length > 0 && (
+                      <SelectionActions
+                        selectedCount={selectedIds.length}
+                        onRename={(name) => renameRegions(selectedIds, name)}
+                        tags={regions.find((r) => selectedIds.includes(r.id))?.tags ?? []}
+                        onTagsChange={(tags) =>
+                          updateRegions(
+                            Object.fromEntries(selectedIds.map((id) => [id, { tags: tags.length > 0 ? tags : undefined }])),
+                          )
+                        }
+                        shape={selectedShape}
+                        onShapeChange={handleShapeChange}
+                        perspective={selectedTransform.perspective}
+                        onPerspectiveChange={handlePerspectiveChange}
+                        rotated={selectedTransform.rotated}
+                        onResetRotation={handleResetRotation}
+                        postProcess={regions.find((r) => selectedIds.includes(r.id))?.postProcess}
+                        onPostProcessChange={(postProcess) =>
+                          updateRegions(Object.fromEntries(selectedIds.map((id) => [id, { postProcess }])))
+                        }
+                        exportOverrides={regions.find((r) => selectedIds.includes(r.id))?.exportOverrides}
+                        onExportOverridesChange={(exportOverrides) =>
+                          updateRegions(Object.fromEntries(selectedIds.map((id) => [id, { exportOverrides }])))
+                        }
+                        onCompare={() => setCompareRegionId(selectedIds[0])}
+                        canVectorize={
+                          selectedIds.length === 1 && regions.some((r) => r.id === selectedIds[0] && canVectorize(r))
+                        }
+                        onVectorize={() => setVectorizeRegionId(selectedIds[0])}
+                        onSpriteSheet={() => setIsSpriteSheetOpen(true)}
+                        onDownload={handleDownloadSelected}
+                        onDelete={() => deleteRegions(selectedIds)}
+                        onClear={() => selectRegion(null)}
+                      />
+                    )}
                     {regions.length === 0 ? (
                       <p className="text-sm text-muted-foreground text-center py-8">
                         Click "Scan for images" or draw regions manually
                       </p>
+                    ) : visibleRegions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground text-center py-8">
+                        All regions are hidden by the current filter
+                      </p>
                     ) : (
                       <div className="grid grid-cols-2 gap-3 max-h-[60vh] overflow-y-auto">
-                        {regions.map((region, index) => (
+                        {visibleRegions.map((region, index) => (
                           <CropPreview
                             key={region.id}
                             region={region}
@@ -281,12 +740,9 @@ export default function Index() {
                             originalHeight={originalDimensions.height}
                             displayWidth={displayDimensions.width}
                             displayHeight={displayDimensions.height}
-                            isSelected={selectedId === region.id}
-                            onSelect={() => {
-                              setSelectedId(region.id);
-                              setScrollToRegionId(region.id);
-                              setTimeout(() => setScrollToRegionId(null), 500);
-                            }}
+                            exportSettings={exportSettings}
+                            isSelected={selectedIds.includes(region.id)}
+                            onSelect={(e) => handlePreviewSelect(region.id, e)}
                             onDelete={() => deleteRegion(region.id)}
                             onDownload={() => handleDownloadSingle(region.id)}
                             index={index}
@@ -294,6 +750,20 @@ export default function Index() {
                         ))}
                       </div>
                     )}
+                    {duplicateGroups.length > 0 && (
+                      <DuplicateGroups
+                        groups={duplicateGroups}
+                        regions={visibleRegions}
+                        merge={exportSettings.dedupe.enabled}
+                        onMergeChange={(enabled) =>
+                          setExportSettings({ ...exportSettings, dedupe: { ...exportSettings.dedupe, enabled } })
+                        }
+                        onSelectGroup={selectRegions}
+                      />
+                    )}
+                    {activeImage.rejected && activeImage.rejected.length > 0 && (
+                      <RejectedRegions rejected={activeImage.rejected} />
+                    )}
                   </div>
                 </div>
               </div>
@@ -301,6 +771,60 @@ export default function Index() {
           )}
         </main>
       </div>
+
+      <ExportSettingsDialog
+        open={isExportSettingsOpen}
+        onOpenChange={setIsExportSettingsOpen}
+        settings={exportSettings}
+        onSettingsChange={setExportSettings}
+      />
+      {imageSrc && (
+        <CompareDialog
+          key={compareRegionId ?? "closed"}
+          region={regions.find((r) => r.id === compareRegionId) ?? null}
+          onClose={() => setCompareRegionId(null)}
+          imageSrc={imageSrc}
+          originalWidth={originalDimensions.width}
+          originalHeight={originalDimensions.height}
+          displayWidth={displayDimensions.width}
+          displayHeight={displayDimensions.height}
+          exportSettings={exportSettings}
+          onApplyToRegion={(overrides) => {
+            if (!compareRegionId) return;
+            const current = regions.find((r) => r.id === compareRegionId)?.exportOverrides;
+            updateRegions({ [compareRegionId]: { exportOverrides: { ...current, ...overrides } } });
+          }}
+          onApplyToExport={setExportSettings}
+        />
+      )}
+      {imageSrc && (
+        <VectorizeDialog
+          key={vectorizeRegionId ?? "closed"}
+          region={regions.find((r) => r.id === vectorizeRegionId) ?? null}
+          onClose={() => setVectorizeRegionId(null)}
+          imageSrc={imageSrc}
+          originalWidth={originalDimensions.width}
+          originalHeight={originalDimensions.height}
+          displayWidth={displayDimensions.width}
+          displayHeight={displayDimensions.height}
+          exportSettings={exportSettings}
+          onApplyToRegion={(overrides) => {
+            if (!vectorizeRegionId) return;
+            const current = regions.find((r) => r.id === vectorizeRegionId)?.exportOverrides;
+            updateRegions({ [vectorizeRegionId]: { exportOverrides: { ...current, ...overrides } } });
+          }}
+          onApplyToExport={setExportSettings}
+        />
+      )}
+      <SpriteSheetDialog
+        open={isSpriteSheetOpen}
+        onOpenChange={setIsSpriteSheetOpen}
+        regions={regions.filter((r) => selectedIds.includes(r.id))}
+        scale={originalDimensions.width / (displayDimensions.width || 1)}
+        settings={exportSettings}
+        onSettingsChange={setExportSettings}
+        onDownload={handleDownloadSpriteSheet}
+      />
     </>
   );
 }
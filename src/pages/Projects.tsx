@@ -0,0 +1,172 @@
+import { useCallback, useEffect, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Copy, FolderOpen, Loader2, Trash2 } from "lucide-react";
+import { AppHeader } from "@/components/AppHeader";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { deleteProject, duplicateProject, listProjects, setCurrentProjectId } from "@/lib/projectStore";
+import { Project } from "@/types/project";
+
+export default function Projects() {
+  const navigate = useNavigate();
+  const [projects, setProjects] = useState<Project[] | null>(null);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [pendingDelete, setPendingDelete] = useState<Project | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to load projects:", error);
+      toast.error("Failed to load saved projects");
+      setProjects([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Object URLs for the stored source images, revoked when the list changes
+  useEffect(() => {
+    if (!projects) return;
+    const urls = Object.fromEntries(projects.map((p) => [p.id, URL.createObjectURL(p.images[0].image)]));
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach((url) => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  const handleDuplicate = async (project: Project) => {
+    try {
+      await duplicateProject(project.id);
+      toast.success(`Duplicated "${project.name}"`);
+      refresh();
+    } catch (error) {
+      console.error("Duplicate error:", error);
+      toast.error("Failed to duplicate project");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+    try {
+      await deleteProject(pendingDelete.id);
+      toast.success(`Deleted "${pendingDelete.name}"`);
+      refresh();
+    } catch (error) {
+      console.error("Delete error:", error);
+      toast.error("Failed to delete project");
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <Helmet>
+        <title>Projects - Image Slicer</title>
+      </Helmet>
+
+      <div className="min-h-screen bg-background">
+        <AppHeader />
+
+        <main className="container py-8 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-foreground">Saved projects</h2>
+            <Button asChild variant="outline">
+              {/* Without a current project the editor starts empty instead of restoring the last one */}
+              <Link to="/" onClick={() => setCurrentProjectId(null)}>
+                New project
+              </Link>
+            </Button>
+          </div>
+
+          {projects === null ? (
+            <div className="flex justify-center py-16">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-16">
+              No saved projects yet. Projects are saved in this browser automatically as you work.
+            </p>
+          ) : (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {projects.map((project) => (
+                <div key={project.id} className="glass rounded-xl overflow-hidden flex flex-col">
+                  <button
+                    className="aspect-video bg-muted flex items-center justify-center overflow-hidden"
+                    onClick={() => navigate(`/?project=${project.id}`)}
+                  >
+                    {thumbnails[project.id] && (
+                      <img
+                        src={thumbnails[project.id]}
+                        alt={project.name}
+                        className="w-full h-full object-cover object-top"
+                      />
+                    )}
+                  </button>
+                  <div className="p-3 space-y-2">
+                    <div>
+                      <p className="font-medium text-foreground truncate" title={project.name}>
+                        {project.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {project.images.length} source image(s) ·{" "}
+                        {project.images.reduce((sum, image) => sum + image.regions.length, 0)} region(s) · edited{" "}
+                        {formatDistanceToNow(project.updatedAt, { addSuffix: true })}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button size="sm" className="gap-1.5 flex-1" onClick={() => navigate(`/?project=${project.id}`)}>
+                        <FolderOpen className="w-3.5 h-3.5" />
+                        Open
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-9 w-9" onClick={() => handleDuplicate(project)} title="Duplicate">
+                        <Copy className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-9 w-9 hover:bg-destructive hover:text-destructive-foreground"
+                        onClick={() => setPendingDelete(project)}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The images and all of their regions are removed from this browser. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+import { CropRegion, RegionRejection } from "./crop";
+
+/**
+ * Lifecycle of an image in the batch queue
+ * - pending: not scanned yet
+ * - queued: waiting for a free detection slot
+ * - detecting: detection request in flight
+ * - done / error: last detection finished
+ */
+export type ImageStatus = "pending" | "queued" | "detecting" | "done" | "error";
+
+export interface SourceImage {
+  id: string;
+  file: File;
+  /** Data URL of the file, used for display and detection */
+  src: string;
+  /** Natural image size in pixels; regions are stored in these coordinates */
+  width: number;
+  height: number;
+  regions: CropRegion[];
+  status: ImageStatus;
+  progress: number;
+  step: string;
+  /** Regions streamed in while detection is running; cleared when it finishes */
+  previewRegions?: CropRegion[];
+  /** Regions the last detection dropped, and why */
+  rejected?: RegionRejection[];
+  error?: string;
+}
@@ -1,3 +1,42 @@
+import { RegionExportOverrides } from "./export";
+
+/** What a region contains, as classified by the detector */
+export const REGION_TYPES = ["photo", "icon", "logo", "illustration", "avatar", "background"] as const;
+export type RegionType = (typeof REGION_TYPES)[number];
+
+/** Outline of a region; everything outside it is exported as transparent */
+export type RegionShape = "rectangle" | "ellipse" | "rounded-rect" | "polygon";
+
+/** Polygon vertex relative to the region box: 0,0 is the top-left corner, 1,1 the bottom-right */
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Post-processing steps of a region; a step is off when its field is unset
+ */
+export interface RegionPostProcess {
+  /** Makes a solid background transparent; "auto" takes the most common border color */
+  knockout?: {
+    color: string | "auto";
+    /** Max per-channel difference (0-255) that is fully removed */
+    tolerance: number;
+    /** Colors up to this much further away are made partly transparent, for soft edges */
+    feather: number;
+    /** Only remove background connected to the crop border, keeping enclosed areas of the same color */
+    contiguous: boolean;
+  };
+  /** Cuts away border rows and columns of one uniform color; max per-channel difference (0-255) */
+  trim?: { tolerance: number };
+  /** Space added on every side, in image pixels */
+  padding?: number;
+  /** Pads the shorter side to this width / height ratio, e.g. 1 for square */
+  aspectRatio?: number;
+  /** Fill for padding as a hex color; transparent when unset */
+  padColor?: string;
+}
+
 export interface CropRegion {
   id: string;
   x: number;
@@ -6,9 +45,47 @@ export interface CropRegion {
   height: number;
   label?: string;
   filename?: string;
+  /** Set by detection; manually drawn regions have no type */
+  type?: RegionType;
+  /** Detector confidence 0-1; manually drawn regions have none */
+  confidence?: number;
+  /** Defaults to "rectangle" */
+  shape?: RegionShape;
+  /** Corner radius in image pixels for "rounded-rect" */
+  cornerRadius?: number;
+  /** Vertices for "polygon", relative to the box so moving and resizing keep the outline */
+  points?: ShapePoint[];
+  /** Clockwise rotation in degrees around the box center; the box is the region before rotating */
+  rotation?: number;
+  /**
+   * Perspective mode: the content's corners (top-left, top-right, bottom-right, bottom-left) relative to
+   * the box, which is then their bounding box. The export is flattened to a rectangle.
+   */
+  quad?: ShapePoint[];
+  /** Clean-up applied to the crop before encoding, in this order: knockout, trim, padding, aspect ratio */
+  postProcess?: RegionPostProcess;
+  /** Free-form tags, e.g. for sorting exports into folders */
+  tags?: string[];
+  /** Export settings that differ from the rest of the export, e.g. a logo forced to PNG */
+  exportOverrides?: RegionExportOverrides;
+}
+
+/**
+ * A region the detector found but dropped, with a reason that can be shown to the user
+ */
+export interface RegionRejection {
+  label: string;
+  reason: string;
 }
 
 export interface DetectionResult {
   regions: CropRegion[];
   confidence: number;
+  /** AI-generated kebab-case name for the whole image */
+  imageName?: string | null;
+  /** Regions dropped by validation and filtering (AI mode only) */
+  rejected?: RegionRejection[];
 }
+
+/** "ai" uses the detect-images edge function, "local" the offline in-browser detector */
+export type DetectionMode = "ai" | "local";
@@ -0,0 +1,140 @@
+export type ImageFormat = "png" | "jpeg" | "webp" | "avif" | "jxl";
+
+/**
+ * Which sizes of every region are exported
+ * - native: one file at the crop's own resolution
+ * - density: @1x/@2x/@3x-style variants; the highest density is the native resolution
+ * - width: width breakpoints (e.g. for srcset); widths above the native width are skipped
+ */
+export type VariantMode = "native" | "density" | "width";
+
+/** How crops are scaled down: canvas smoothing quality, or nearest-neighbor for pixel art */
+export type Resampling = "high" | "medium" | "low" | "nearest";
+
+/**
+ * Per-format encoder controls. Quality is 0-100; effort trades encoding time for smaller files.
+ */
+export interface EncoderSettings {
+  jpeg: { quality: number };
+  webp: { quality: number };
+  /** Effort 0-10 (libavif speed 10-0) */
+  avif: { quality: number; effort: number };
+  /** Effort 1-9 */
+  jxl: { quality: number; effort: number };
+  /**
+   * `optimize` runs oxipng (effort 0-6); `colors` 2-256 quantizes to a palette first, 0 keeps every color
+   */
+  png: { optimize: boolean; effort: number; colors: number };
+}
+
+/**
+ * Sorts regions of a type, or with a tag, into a folder of the ZIP; the folder may use filename tokens
+ */
+export interface FolderRule {
+  match: "type" | "tag";
+  value: string;
+  folder: string;
+}
+
+export interface ExportSettings {
+  /** "auto" picks PNG for transparent crops and WebP otherwise */
+  format: "auto" | ImageFormat;
+  encoders: EncoderSettings;
+  variantMode: VariantMode;
+  /** Pixel densities, e.g. [1, 2, 3] */
+  densities: number[];
+  /** Target widths in pixels */
+  widths: number[];
+  /** Filename patterns (without extension) using {name} and {density} / {width} */
+  densityPattern: string;
+  widthPattern: string;
+  /** Longest side of a crop in pixels (before variants); 0 keeps the native size */
+  maxDimension: number;
+  resampling: Resampling;
+  /** Per-file size budget in KB; 0 means none */
+  maxKilobytes: number;
+  /** The downscaled source image added to ZIPs as template.* */
+  template: { include: boolean; maxHeight: number; quality: number };
+  /** Filename template ({name}, {index:03}, {hash:8}, ...) and the folders regions are sorted into */
+  naming: { template: string; folders: FolderRule[] };
+  /** Export one file per group of identical or near-identical regions; threshold is in differing hash bits */
+  dedupe: { enabled: boolean; threshold: number };
+  /** Sprite sheet export: gap between images, power-of-two sheet sides, CSS class prefix, extra SVG symbol sheet */
+  sprite: { padding: number; powerOfTwo: boolean; format: "png" | "webp"; prefix: string; svg: boolean };
+  /** SVG tracing of icon and logo regions in ZIPs, written next to or instead of their raster files */
+  vectorize: { enabled: boolean; fidelity: number; output: "beside" | "instead" };
+  /** manifest.json (and optionally a typed assets.ts module) written next to the images in ZIPs */
+  manifest: { include: boolean; typescript: boolean };
+}
+
+/**
+ * Settings a single region can override; anything unset follows the export settings
+ */
+export interface RegionExportOverrides {
+  format?: ImageFormat;
+  /** 0-100, for whichever lossy format is used */
+  quality?: number;
+  maxDimension?: number;
+  resampling?: Resampling;
+  maxKilobytes?: number;
+  /** 0-100, for the SVG of vectorized icons and logos */
+  fidelity?: number;
+}
+
+export interface ExportPreset {
+  name: string;
+  settings: ExportSettings;
+}
+
+/**
+ * One exported file of a region
+ */
+export interface ManifestFile {
+  file: string;
+  width: number;
+  height: number;
+  format: ImageFormat | "svg";
+  bytes: number;
+  /** SHA-256 of the file contents, hex */
+  hash: string;
+  /** Pixel density the file is meant for, in density mode */
+  density?: number;
+}
+
+/**
+ * Where a region sits in the source image, in its pixels
+ */
+export interface ManifestSource {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number;
+}
+
+/**
+ * A region in manifest.json; the top-level file fields describe the largest variant
+ */
+export interface ManifestAsset extends ManifestFile {
+  id: string;
+  name: string;
+  label?: string;
+  type?: string;
+  /** The region in the source image, in its pixels */
+  source: ManifestSource;
+  /** Every file exported for the region, largest first (just the one file without size variants) */
+  variants: ManifestFile[];
+  /** Traced SVG written next to the raster files */
+  vector?: ManifestFile;
+  /** With merged duplicates: every region that shows this asset, this one included */
+  instances?: { id: string; label?: string; source: ManifestSource }[];
+}
+
+export interface ExportManifest {
+  version: 1;
+  generatedAt: string;
+  source: { file: string; width: number; height: number };
+  /** The template file, when included */
+  template?: string;
+  assets: ManifestAsset[];
+}
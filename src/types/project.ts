@@ -0,0 +1,23 @@
+import { CropRegion } from "./crop";
+import { ImageStatus } from "./batch";
+import { ExportSettings } from "./export";
+
+export interface ProjectImage {
+  id: string;
+  /** Original uploaded image, stored as-is */
+  image: Blob;
+  /** Filename of the source image (replaced by the AI-generated name for pasted images) */
+  imageName: string;
+  regions: CropRegion[];
+  status: Exclude<ImageStatus, "queued" | "detecting">;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  images: ProjectImage[];
+  /** Missing in projects saved before export settings existed */
+  exportSettings?: ExportSettings;
+}
@@ -0,0 +1,16 @@
+import { EncoderRequest, EncoderResponse, encodeWithWasm } from "@/lib/wasmEncoder";
+
+function respond(message: EncoderResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = async (event: MessageEvent<EncoderRequest>) => {
+  const { id, format, width, height, buffer, settings } = event.data;
+  try {
+    const image = new ImageData(new Uint8ClampedArray(buffer), width, height);
+    const result = await encodeWithWasm(format, image, settings);
+    respond({ id, type: "result", buffer: result }, [result]);
+  } catch (error) {
+    respond({ id, type: "error", message: error instanceof Error ? error.message : `Failed to encode ${format}` });
+  }
+};
@@ -0,0 +1,17 @@
+import { detectRegionsLocally, LocalDetectorRequest, LocalDetectorResponse } from "@/lib/localDetector";
+
+function respond(message: LocalDetectorResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<LocalDetectorRequest>) => {
+  const { width, height, buffer } = event.data;
+  try {
+    const result = detectRegionsLocally({ data: new Uint8ClampedArray(buffer), width, height }, (progress, step) =>
+      respond({ type: "progress", progress, step }),
+    );
+    respond({ type: "result", result });
+  } catch (error) {
+    respond({ type: "error", message: error instanceof Error ? error.message : "Local detection failed" });
+  }
+};
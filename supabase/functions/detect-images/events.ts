@@ -0,0 +1,28 @@
+import { RegionRejection } from "./providers/types.ts";
+import { PixelRegion } from "./regions.ts";
+
+/**
+ * Server-Sent Events sent while a streaming detection runs
+ * - stage: a real processing step finished (upload received, tiles dispatched, model responded, regions filtered)
+ * - regions: regions found so far (one tile, or the whole image), for live preview
+ * - result: the final response, same shape as the JSON response
+ * - error: detection failed; { error, status }
+ */
+export type DetectionStage = "received" | "tiles-dispatched" | "tile-done" | "model-responded" | "filtered";
+
+export type DetectionEvent =
+  | { event: "stage"; data: { stage: DetectionStage; progress: number; message: string } }
+  | { event: "regions"; data: { tile: number | null; regions: PixelRegion[] } }
+  | {
+      event: "result";
+      data: { imageName: string | null; regions: PixelRegion[]; confidence: number; rejected: RegionRejection[] };
+    }
+  | { event: "error"; data: { error: string; status: number } & Record<string, unknown> };
+
+export type Emit = (event: DetectionEvent) => void;
+
+export const noopEmit: Emit = () => {};
+
+export function emitStage(emit: Emit, stage: DetectionStage, progress: number, message: string) {
+  emit({ event: "stage", data: { stage, progress, message } });
+}
@@ -0,0 +1,170 @@
+import { getProvider } from "./providers/index.ts";
+import { DetectionProvider, ImageProfile, ProviderError, RegionRejection } from "./providers/types.ts";
+import { PixelRegion, profileImage, toPixelRegions } from "./regions.ts";
+import { detectTiled, shouldTile } from "./tiling.ts";
+import { DetectionEvent, Emit, emitStage, noopEmit } from "./events.ts";
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface DetectionJob {
+  provider: DetectionProvider;
+  imageBase64: string;
+  profile: ImageProfile;
+  model?: string;
+  emit: Emit;
+  signal?: AbortSignal;
+}
+
+interface DetectionOutput {
+  imageName: string | null;
+  regions: PixelRegion[];
+  confidence: number;
+  /** Regions the model returned that were dropped, with the reason */
+  rejected: RegionRejection[];
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function errorBody(error: unknown): { error: string; status: number } & Record<string, unknown> {
+  if (error instanceof ProviderError) {
+    return { error: error.message, status: error.status, ...error.details };
+  }
+  console.error("Detection error:", error);
+  return { error: error instanceof Error ? error.message : "Detection failed", status: 500 };
+}
+
+/**
+ * Streams detection events as Server-Sent Events. Errors are sent as an "error" event
+ * since the 200 status has already gone out.
+ */
+function sseResponse(run: (emit: Emit) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const emit: Emit = ({ event, data }: DetectionEvent) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          // The client went away
+          open = false;
+        }
+      };
+
+      try {
+        await run(emit);
+      } catch (error) {
+        emit({ event: "error", data: errorBody(error) });
+      } finally {
+        if (open) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
+
+async function detectWhole({ provider, imageBase64, profile, model, emit, signal }: DetectionJob): Promise<DetectionOutput> {
+  emitStage(emit, "tiles-dispatched", 10, "Analyzing content...");
+  const result = await provider.detect({ imageBase64, profile, model, signal });
+  emitStage(emit, "model-responded", 85, "Filtering regions...");
+
+  const { regions, rejected } = toPixelRegions(result.regions, profile);
+  emit({ event: "regions", data: { tile: null, regions } });
+  emitStage(emit, "filtered", 95, "Finishing up...");
+  return { ...result, regions, rejected: [...result.rejected, ...rejected] };
+}
+
+/**
+ * Tiled detection for very tall pages; falls back to a single pass if the image can't be decoded here
+ */
+async function detectTiledWithFallback(job: DetectionJob): Promise<DetectionOutput> {
+  try {
+    const { provider, imageBase64, profile, model, emit, signal } = job;
+    return await detectTiled(provider, imageBase64, profile, model, emit, signal);
+  } catch (error) {
+    if (error instanceof ProviderError || job.signal?.aborted) throw error;
+    console.error("Tiling failed, detecting the whole image instead:", error);
+    return detectWhole(job);
+  }
+}
+
+async function runJob(job: DetectionJob, tiling: boolean): Promise<DetectionOutput> {
+  const result = tiling && shouldTile(job.profile) ? await detectTiledWithFallback(job) : await detectWhole(job);
+
+  console.log("Detected regions:", result.regions.length, "rejected:", result.rejected.length);
+
+  // Tiles number their regions independently; give the merged list unique ids
+  const now = Date.now();
+  return {
+    imageName: result.imageName || null,
+    regions: result.regions.map((region, index) => ({ ...region, id: `detected-${index}-${now}` })),
+    confidence: result.confidence || 0.8,
+    rejected: result.rejected,
+  };
+}
+
+/**
+ * Handles a detection request. Body: { imageBase64, width, height, provider?, model?, tiling?, stream? }
+ * With `stream: true` the response is an SSE stream (see events.ts), otherwise a single JSON object.
+ */
+export async function handleRequest(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      imageBase64,
+      width,
+      height,
+      provider: providerName,
+      model,
+      tiling = true,
+      stream = false,
+    } = await req.json();
+
+    if (!imageBase64) {
+      return jsonResponse({ error: "Image data is required" }, 400);
+    }
+
+    const provider = getProvider(providerName);
+    const profile = profileImage(width, height);
+
+    console.log("Analyzing image for embedded images...", {
+      width,
+      height,
+      aspectRatio: profile.aspectRatio.toFixed(2),
+      filterMode: profile.filterMode,
+      provider: provider.name,
+      model: model || provider.defaultModel,
+      stream,
+    });
+
+    const job = { provider, imageBase64, profile, model, signal: req.signal };
+
+    if (stream) {
+      return sseResponse(async (emit) => {
+        emitStage(emit, "received", 5, "Upload received");
+        const result = await runJob({ ...job, emit }, tiling);
+        emit({ event: "result", data: result });
+      });
+    }
+
+    return jsonResponse(await runJob({ ...job, emit: noopEmit }, tiling));
+  } catch (error) {
+    const { status, ...body } = errorBody(error);
+    return jsonResponse(body, status);
+  }
+}
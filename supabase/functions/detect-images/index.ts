@@ -1,251 +1,4 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { handleRequest } from "./handler.ts";
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-};
-
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { imageBase64, width, height } = await req.json();
-
-    if (!imageBase64) {
-      return new Response(
-        JSON.stringify({ error: "Image data is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      console.error("LOVABLE_API_KEY not configured");
-      return new Response(
-        JSON.stringify({ error: "AI service not configured" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Calculate aspect ratio to adjust filters for long images
-    const aspectRatio = height / width;
-    const isVeryTallImage = aspectRatio > 3; // Height > 3x width (like newsletters)
-    const isModeratelyTallImage = aspectRatio > 2;
-
-    const filterMode = isVeryTallImage ? "very-tall" : isModeratelyTallImage ? "tall" : "standard";
-    console.log("Analyzing image for embedded images...", { 
-      width, 
-      height, 
-      aspectRatio: aspectRatio.toFixed(2),
-      filterMode 
-    });
-
-    // Build adaptive prompt based on image characteristics
-    let additionalInstructions = "";
-    if (isVeryTallImage) {
-      additionalInstructions = `
-
-SPECIAL INSTRUCTIONS FOR LONG-FORM CONTENT:
-This appears to be a long scrollable page (newsletter, email, landing page).
-- Pay EXTRA attention to repetitive elements - each instance is a separate asset
-- Sequential numbered steps (Step 1, Step 2, etc.) each need their own bounding box
-- Small icons in footers and headers are important - include them
-- App store badges, social media icons, and contact icons should be captured
-- Phone/device mockups showing screens are separate assets
-- Do NOT skip elements because they look similar to others
-- Scan the ENTIRE image from top to bottom systematically
-- For very tall images, elements may be as small as 0.3% height - still include them`;
-    }
-
-    const prompt = `Analyze this image and identify ALL embedded visual assets.
-${additionalInstructions}
-FIRST: Provide a descriptive filename for the overall image/screenshot based on its content.
-Use kebab-case, lowercase, no special characters (e.g., "webflow-testimonials-page", "product-hero-section", "landing-page-screenshot").
-
-INCLUDE these visual element types:
-- Photos and images (product photos, hero images, thumbnails)
-- Icons (UI icons, social media icons, navigation icons)
-- Logos (company logos, brand marks)
-- Illustrations and graphics
-
-EXCLUDE these elements:
-- Text labels and buttons (even if they have backgrounds)
-- Pure text without graphics
-- Background colors or patterns
-${isVeryTallImage ? '- Elements smaller than 0.3% in both dimensions' : '- Elements smaller than 2% in both dimensions'}
-
-For each visual asset, return PRECISE bounding box as percentages (0-100):
-- x_percent: left edge where image pixels BEGIN
-- y_percent: top edge where image pixels BEGIN
-- width_percent: exact width of visual content
-- height_percent: exact height of visual content
-- label: descriptive display name (e.g., "Company Logo", "Hero Image")
-- filename: file-friendly name in kebab-case, lowercase, no special characters (e.g., "company-logo", "hero-image")
-
-CRITICAL: 
-- All percentages MUST be between 0 and 100
-- Boxes must TIGHTLY fit the actual image content - no whitespace or padding
-- For icons, crop to the icon graphic only, not its container
-- filename must be valid for file systems: only lowercase letters, numbers, and hyphens
-
-Return ONLY valid JSON:
-{"imageName": "descriptive-name-for-image", "regions": [...], "confidence": 0.0-1.0}`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-pro-preview",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              {
-                type: "image_url",
-                image_url: { url: imageBase64 },
-              },
-            ],
-          },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add credits." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      
-      return new Response(
-        JSON.stringify({ error: "AI analysis failed" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      console.error("No content in AI response");
-      return new Response(
-        JSON.stringify({ error: "No response from AI" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    console.log("AI response:", content);
-
-    // Parse the JSON from the response
-    let parsed;
-    try {
-      // Try to extract JSON from the response (it might be wrapped in markdown code blocks)
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/) || [null, content];
-      const jsonStr = jsonMatch[1] || content;
-      parsed = JSON.parse(jsonStr.trim());
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", parseError);
-      return new Response(
-        JSON.stringify({ error: "Failed to parse AI response", raw: content }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Adaptive minimum size thresholds based on aspect ratio
-    let minWidthPercent = 1.5;
-    let minHeightPercent = 1.5;
-    let minAreaPercent = 4;
-
-    if (isVeryTallImage) {
-      // For very tall images (5000px+ height), use much lower height threshold
-      minWidthPercent = 1.0;   // ~7px for 680px wide
-      minHeightPercent = 0.3;  // ~17px for 5600px tall (instead of 84px)
-      minAreaPercent = 1.0;    // Lower area threshold too
-      console.log("Using relaxed filters for very tall image");
-    } else if (isModeratelyTallImage) {
-      minWidthPercent = 1.2;
-      minHeightPercent = 0.8;
-      minAreaPercent = 2.0;
-      console.log("Using adjusted filters for tall image");
-    }
-    
-    console.log("Raw AI percentages:", JSON.stringify(parsed.regions, null, 2));
-    
-    const regions = (parsed.regions || [])
-      .filter((region: any) => {
-        const area = region.width_percent * region.height_percent;
-        // Filter out regions that are too small in any dimension OR have too small area
-        if (region.width_percent < minWidthPercent || region.height_percent < minHeightPercent || area < minAreaPercent) {
-          console.log(`Filtered out small region "${region.label}": ${region.width_percent}%x${region.height_percent}% (area: ${area.toFixed(1)}%)`);
-          return false;
-        }
-        // Filter out invalid coordinates (must be 0-100)
-        if (region.x_percent < 0 || region.x_percent > 100 ||
-            region.y_percent < 0 || region.y_percent > 100 ||
-            region.width_percent < 0 || region.width_percent > 100 ||
-            region.height_percent < 0 || region.height_percent > 100) {
-          console.log(`Filtered out invalid coordinates for "${region.label}": x=${region.x_percent}, y=${region.y_percent}, w=${region.width_percent}, h=${region.height_percent}`);
-          return false;
-        }
-        // Filter out regions that extend beyond image bounds
-        if (region.x_percent + region.width_percent > 100 || 
-            region.y_percent + region.height_percent > 100) {
-          console.log(`Filtered out out-of-bounds region "${region.label}": extends beyond 100%`);
-          return false;
-        }
-        return true;
-      })
-      .map((region: any, index: number) => {
-        // Direct conversion without inset correction to see raw AI output
-        const pixelX = Math.round((region.x_percent / 100) * width);
-        const pixelY = Math.round((region.y_percent / 100) * height);
-        const pixelWidth = Math.round((region.width_percent / 100) * width);
-        const pixelHeight = Math.round((region.height_percent / 100) * height);
-        
-        console.log(`Region ${index} "${region.label}": ${region.x_percent}%,${region.y_percent}% ${region.width_percent}%x${region.height_percent}% -> ${pixelX},${pixelY} ${pixelWidth}x${pixelHeight}px`);
-        
-        return {
-          id: `detected-${index}-${Date.now()}`,
-          x: pixelX,
-          y: pixelY,
-          width: pixelWidth,
-          height: pixelHeight,
-          label: region.label || `Image ${index + 1}`,
-          filename: region.filename || `image-${index + 1}`,
-        };
-      });
-
-    console.log("Detected regions:", regions.length);
-
-    return new Response(
-      JSON.stringify({
-        imageName: parsed.imageName || null,
-        regions,
-        confidence: parsed.confidence || 0.8,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  } catch (error) {
-    console.error("Detection error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Detection failed" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
-  }
-});
+serve(handleRequest);
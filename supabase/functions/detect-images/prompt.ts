@@ -0,0 +1,68 @@
+import { ImageProfile } from "./providers/types.ts";
+
+/**
+ * Builds the detection prompt, with extra guidance for long scrollable pages
+ */
+export function buildDetectionPrompt(profile: ImageProfile): string {
+  let additionalInstructions = "";
+  if (profile.isVeryTall) {
+    additionalInstructions = `
+
+SPECIAL INSTRUCTIONS FOR LONG-FORM CONTENT:
+This appears to be a long scrollable page (newsletter, email, landing page).
+- Pay EXTRA attention to repetitive elements - each instance is a separate asset
+- Sequential numbered steps (Step 1, Step 2, etc.) each need their own bounding box
+- Small icons in footers and headers are important - include them
+- App store badges, social media icons, and contact icons should be captured
+- Phone/device mockups showing screens are separate assets
+- Do NOT skip elements because they look similar to others
+- Scan the ENTIRE image from top to bottom systematically
+- For very tall images, elements may be as small as 0.3% height - still include them`;
+  }
+
+  if (profile.section) {
+    additionalInstructions += `
+
+SECTION OF A LONGER PAGE:
+This image is section ${profile.section.index + 1} of ${profile.section.count} of a long page, cut horizontally.
+- Report assets in this section only, with percentages relative to THIS section
+- Include assets cut off at the top or bottom edge, boxed to the visible part
+- Name the overall image after the whole page, not this section`;
+  }
+
+  return `Analyze this image and identify ALL embedded visual assets.
+${additionalInstructions}
+FIRST: Provide a descriptive filename for the overall image/screenshot based on its content.
+Use kebab-case, lowercase, no special characters (e.g., "webflow-testimonials-page", "product-hero-section", "landing-page-screenshot").
+
+INCLUDE these visual element types:
+- Photos and images (product photos, hero images, thumbnails)
+- Icons (UI icons, social media icons, navigation icons)
+- Logos (company logos, brand marks)
+- Illustrations and graphics
+
+EXCLUDE these elements:
+- Text labels and buttons (even if they have backgrounds)
+- Pure text without graphics
+- Background colors or patterns
+${profile.isVeryTall ? '- Elements smaller than 0.3% in both dimensions' : '- Elements smaller than 2% in both dimensions'}
+
+For each visual asset, return PRECISE bounding box as percentages (0-100):
+- x_percent: left edge where image pixels BEGIN
+- y_percent: top edge where image pixels BEGIN
+- width_percent: exact width of visual content
+- height_percent: exact height of visual content
+- label: descriptive display name (e.g., "Company Logo", "Hero Image")
+- filename: file-friendly name in kebab-case, lowercase, no special characters (e.g., "company-logo", "hero-image")
+- type: what the asset is, exactly one of "photo", "icon", "logo", "illustration", "avatar", "background"
+- confidence: how sure you are that this is a distinct visual asset with an accurate box, 0.0-1.0
+
+CRITICAL: 
+- All percentages MUST be between 0 and 100
+- Boxes must TIGHTLY fit the actual image content - no whitespace or padding
+- For icons, crop to the icon graphic only, not its container
+- filename must be valid for file systems: only lowercase letters, numbers, and hyphens
+
+Return ONLY valid JSON:
+{"imageName": "descriptive-name-for-image", "regions": [...], "confidence": 0.0-1.0}`;
+}
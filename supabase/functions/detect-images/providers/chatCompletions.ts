@@ -0,0 +1,113 @@
+import { buildDetectionPrompt } from "../prompt.ts";
+import { validateModelOutput } from "../validation.ts";
+import { DetectionProvider, DetectionRequest, ProviderError, ProviderResult } from "./types.ts";
+
+interface ChatCompletionsConfig {
+  name: string;
+  defaultModel: string;
+  /** Base URL of the OpenAI-compatible API, e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  apiKey?: string;
+  /** Provider-specific messages for HTTP error statuses */
+  errorMessages?: Record<number, string>;
+}
+
+// One answer plus one repair attempt with the validation errors
+const MAX_ATTEMPTS = 2;
+
+type ChatMessage = { role: "user" | "assistant"; content: unknown };
+
+function repairPrompt(errors: string[]): string {
+  return `Your previous answer did not match the required JSON format:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Reply again with ONLY the corrected JSON object, in the same format as requested. All *_percent values must be numbers between 0 and 100.`;
+}
+
+/**
+ * Provider for any OpenAI-compatible chat completions endpoint with image input
+ */
+export function createChatCompletionsProvider(config: ChatCompletionsConfig): DetectionProvider {
+  return {
+    name: config.name,
+    defaultModel: config.defaultModel,
+
+    async detect({ imageBase64, profile, model, signal }: DetectionRequest): Promise<ProviderResult> {
+      const prompt = buildDetectionPrompt(profile);
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+      const complete = async (messages: ChatMessage[]): Promise<string> => {
+        const response = await fetch(`${config.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+          method: "POST",
+          headers,
+          signal,
+          body: JSON.stringify({ model: model || config.defaultModel, messages }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error(`${config.name} error:`, response.status, errorText);
+          const message = config.errorMessages?.[response.status];
+          if (message) throw new ProviderError(message, response.status);
+          throw new ProviderError("AI analysis failed");
+        }
+
+        const data = await response.json();
+        const content = data.choices?.[0]?.message?.content;
+
+        if (!content) {
+          console.error("No content in AI response");
+          throw new ProviderError("No response from AI");
+        }
+
+        console.log("AI response:", content);
+        return content;
+      };
+
+      const messages: ChatMessage[] = [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            {
+              type: "image_url",
+              image_url: { url: imageBase64 },
+            },
+          ],
+        },
+      ];
+
+      // The last answer with usable regions, returned (with its dropped regions) if the repair goes worse
+      let usable: ProviderResult | null = null;
+      for (let attempt = 1; ; attempt++) {
+        let content: string;
+        try {
+          content = await complete(messages);
+        } catch (error) {
+          if (!usable || signal?.aborted) throw error;
+          console.error("AI repair request failed, keeping the earlier response:", error);
+          return usable;
+        }
+        const outcome = validateModelOutput(content);
+
+        if (outcome.ok && (outcome.errors.length === 0 || attempt === MAX_ATTEMPTS)) {
+          return outcome.result;
+        }
+        if (outcome.ok) usable = outcome.result;
+        if (attempt === MAX_ATTEMPTS) {
+          if (usable) {
+            console.error("AI repair failed validation, keeping the earlier response:", outcome.errors);
+            return usable;
+          }
+          console.error("AI response failed validation after retry:", outcome.errors);
+          throw new ProviderError("AI returned an invalid response", 502, { issues: outcome.errors });
+        }
+
+        console.warn("AI response failed validation, asking for a repair:", outcome.errors);
+        messages.push({ role: "assistant", content }, { role: "user", content: repairPrompt(outcome.errors) });
+      }
+    },
+  };
+}
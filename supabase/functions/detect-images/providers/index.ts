@@ -0,0 +1,75 @@
+import { createChatCompletionsProvider } from "./chatCompletions.ts";
+import { mockProvider } from "./mock.ts";
+import { DetectionProvider, ProviderError } from "./types.ts";
+
+export const DEFAULT_PROVIDER = "lovable";
+
+/**
+ * Available providers by name. Factories run per request so environment changes apply without a redeploy.
+ */
+const providers: Record<string, () => DetectionProvider> = {
+  lovable: () => {
+    const apiKey = Deno.env.get("LOVABLE_API_KEY");
+    if (!apiKey) {
+      console.error("LOVABLE_API_KEY not configured");
+      throw new ProviderError("AI service not configured");
+    }
+    return createChatCompletionsProvider({
+      name: "lovable",
+      defaultModel: "google/gemini-3-pro-preview",
+      baseUrl: "https://ai.gateway.lovable.dev/v1",
+      apiKey,
+      errorMessages: {
+        429: "Rate limit exceeded. Please try again later.",
+        402: "AI credits exhausted. Please add credits.",
+      },
+    });
+  },
+
+  openai: () => {
+    const apiKey = Deno.env.get("OPENAI_API_KEY");
+    if (!apiKey) {
+      console.error("OPENAI_API_KEY not configured");
+      throw new ProviderError("AI service not configured");
+    }
+    return createChatCompletionsProvider({
+      name: "openai",
+      defaultModel: Deno.env.get("OPENAI_MODEL") ?? "gpt-4o",
+      baseUrl: Deno.env.get("OPENAI_BASE_URL") ?? "https://api.openai.com/v1",
+      apiKey,
+      errorMessages: {
+        429: "Rate limit exceeded. Please try again later.",
+        401: "AI service credentials are invalid.",
+      },
+    });
+  },
+
+  // Self-hosted vision model behind an OpenAI-compatible server (vLLM, Ollama, llama.cpp, ...)
+  "self-hosted": () => {
+    const baseUrl = Deno.env.get("SELF_HOSTED_BASE_URL");
+    if (!baseUrl) {
+      console.error("SELF_HOSTED_BASE_URL not configured");
+      throw new ProviderError("AI service not configured");
+    }
+    return createChatCompletionsProvider({
+      name: "self-hosted",
+      defaultModel: Deno.env.get("SELF_HOSTED_MODEL") ?? "llava",
+      baseUrl,
+      apiKey: Deno.env.get("SELF_HOSTED_API_KEY"),
+    });
+  },
+
+  mock: () => mockProvider,
+};
+
+/**
+ * Resolves a provider by name, defaulting to DETECTION_PROVIDER or the Lovable gateway
+ */
+export function getProvider(name?: string): DetectionProvider {
+  const providerName = name || Deno.env.get("DETECTION_PROVIDER") || DEFAULT_PROVIDER;
+  const factory = providers[providerName];
+  if (!factory) {
+    throw new ProviderError(`Unknown detection provider "${providerName}"`, 400);
+  }
+  return factory();
+}
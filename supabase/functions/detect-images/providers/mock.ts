@@ -0,0 +1,23 @@
+import { DetectionProvider, ProviderResult } from "./types.ts";
+
+/**
+ * Deterministic provider that never touches the network, for tests and local development.
+ * Returns the same three regions for every image.
+ */
+export const mockProvider: DetectionProvider = {
+  name: "mock",
+  defaultModel: "mock",
+
+  detect(): Promise<ProviderResult> {
+    return Promise.resolve({
+      imageName: "mock-detected-image",
+      regions: [
+        { x_percent: 10, y_percent: 5, width_percent: 80, height_percent: 30, label: "Hero Image", filename: "hero-image", type: "photo", confidence: 0.95 },
+        { x_percent: 10, y_percent: 45, width_percent: 20, height_percent: 15, label: "Company Logo", filename: "company-logo", type: "logo", confidence: 0.9 },
+        { x_percent: 60, y_percent: 45, width_percent: 10, height_percent: 8, label: "Social Icon", filename: "social-icon", type: "icon", confidence: 0.6 },
+      ],
+      confidence: 1,
+      rejected: [],
+    });
+  },
+};
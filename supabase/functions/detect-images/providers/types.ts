@@ -0,0 +1,83 @@
+/**
+ * Shape of the image being analyzed, used to adapt prompts and size filters
+ */
+export interface ImageProfile {
+  width: number;
+  height: number;
+  aspectRatio: number;
+  /** Height > 3x width (like newsletters) */
+  isVeryTall: boolean;
+  isModeratelyTall: boolean;
+  filterMode: "very-tall" | "tall" | "standard";
+  /** Set when the image is one tile of a longer page */
+  section?: { index: number; count: number };
+}
+
+export interface DetectionRequest {
+  /** Data URL of the image */
+  imageBase64: string;
+  profile: ImageProfile;
+  /** Model override from the request body; providers fall back to their default */
+  model?: string;
+  /** Aborted when the client disconnects */
+  signal?: AbortSignal;
+}
+
+/** What a region contains; keep in sync with REGION_TYPES in src/types/crop.ts */
+export const REGION_TYPES = ["photo", "icon", "logo", "illustration", "avatar", "background"] as const;
+export type RegionType = (typeof REGION_TYPES)[number];
+
+/**
+ * Region as returned by a provider, with its bounding box in percent (0-100) of the image
+ */
+export interface RawRegion {
+  x_percent: number;
+  y_percent: number;
+  width_percent: number;
+  height_percent: number;
+  label?: string;
+  filename?: string;
+  type?: RegionType;
+  /** 0-1 */
+  confidence?: number;
+}
+
+/**
+ * A region the model returned that didn't make it into the result, with a reason the user can read
+ */
+export interface RegionRejection {
+  label: string;
+  reason: string;
+}
+
+export interface ProviderResult {
+  imageName: string | null;
+  regions: RawRegion[];
+  confidence: number;
+  /** Regions dropped while validating the model output */
+  rejected: RegionRejection[];
+}
+
+/**
+ * A detection backend. Each provider owns its prompt construction and turns
+ * the backend's answer into the normalized ProviderResult.
+ */
+export interface DetectionProvider {
+  name: string;
+  defaultModel: string;
+  detect(request: DetectionRequest): Promise<ProviderResult>;
+}
+
+/**
+ * Failure with an HTTP status and a message that is safe to show to the user
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public status = 500,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
@@ -0,0 +1,105 @@
+import { ImageProfile, RawRegion, RegionRejection, RegionType } from "./providers/types.ts";
+
+export interface PixelRegion {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  filename: string;
+  type?: RegionType;
+  confidence?: number;
+}
+
+export function profileImage(width: number, height: number, section?: ImageProfile["section"]): ImageProfile {
+  // Calculate aspect ratio to adjust filters for long images
+  const aspectRatio = height / width;
+  const isVeryTall = aspectRatio > 3; // Height > 3x width (like newsletters)
+  const isModeratelyTall = aspectRatio > 2;
+
+  return {
+    width,
+    height,
+    aspectRatio,
+    isVeryTall,
+    isModeratelyTall,
+    filterMode: isVeryTall ? "very-tall" : isModeratelyTall ? "tall" : "standard",
+    section,
+  };
+}
+
+/**
+ * Drops regions that are too small or outside the image and converts percentages to pixels.
+ * Validation already coerced the percentages to numbers in 0-100.
+ */
+export function toPixelRegions(rawRegions: RawRegion[], profile: ImageProfile): { regions: PixelRegion[]; rejected: RegionRejection[] } {
+  const { width, height } = profile;
+  const rejected: RegionRejection[] = [];
+
+  // Adaptive minimum size thresholds based on aspect ratio
+  let minWidthPercent = 1.5;
+  let minHeightPercent = 1.5;
+  let minAreaPercent = 4;
+
+  if (profile.isVeryTall) {
+    // For very tall images (5000px+ height), use much lower height threshold
+    minWidthPercent = 1.0;   // ~7px for 680px wide
+    minHeightPercent = 0.3;  // ~17px for 5600px tall (instead of 84px)
+    minAreaPercent = 1.0;    // Lower area threshold too
+    console.log("Using relaxed filters for very tall image");
+  } else if (profile.isModeratelyTall) {
+    minWidthPercent = 1.2;
+    minHeightPercent = 0.8;
+    minAreaPercent = 2.0;
+    console.log("Using adjusted filters for tall image");
+  }
+
+  console.log("Raw AI percentages:", JSON.stringify(rawRegions, null, 2));
+
+  const regions = rawRegions
+    .filter((region, index) => {
+      const label = region.label || `Image ${index + 1}`;
+      const area = region.width_percent * region.height_percent;
+      // Filter out regions that are too small in any dimension OR have too small area
+      if (region.width_percent < minWidthPercent || region.height_percent < minHeightPercent || area < minAreaPercent) {
+        console.log(`Filtered out small region "${region.label}": ${region.width_percent}%x${region.height_percent}% (area: ${area.toFixed(1)}%)`);
+        rejected.push({
+          label,
+          reason: `Too small (${region.width_percent.toFixed(1)}% × ${region.height_percent.toFixed(1)}% of the image)`,
+        });
+        return false;
+      }
+      // Filter out regions that extend beyond image bounds
+      if (region.x_percent + region.width_percent > 100 ||
+          region.y_percent + region.height_percent > 100) {
+        console.log(`Filtered out out-of-bounds region "${region.label}": extends beyond 100%`);
+        rejected.push({ label, reason: "Extends beyond the edge of the image" });
+        return false;
+      }
+      return true;
+    })
+    .map((region, index) => {
+      // Direct conversion without inset correction to see raw AI output
+      const pixelX = Math.round((region.x_percent / 100) * width);
+      const pixelY = Math.round((region.y_percent / 100) * height);
+      const pixelWidth = Math.round((region.width_percent / 100) * width);
+      const pixelHeight = Math.round((region.height_percent / 100) * height);
+      
+      console.log(`Region ${index} "${region.label}": ${region.x_percent}%,${region.y_percent}% ${region.width_percent}%x${region.height_percent}% -> ${pixelX},${pixelY} ${pixelWidth}x${pixelHeight}px`);
+      
+      return {
+        id: `detected-${index}-${Date.now()}`,
+        x: pixelX,
+        y: pixelY,
+        width: pixelWidth,
+        height: pixelHeight,
+        label: region.label || `Image ${index + 1}`,
+        filename: region.filename || `image-${index + 1}`,
+        type: region.type,
+        confidence: region.confidence,
+      };
+    });
+
+  return { regions, rejected };
+}
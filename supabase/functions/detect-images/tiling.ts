@@ -0,0 +1,201 @@
+import { decode, Image } from "https://deno.land/x/imagescript@1.2.15/mod.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { DetectionProvider, ImageProfile, RegionRejection } from "./providers/types.ts";
+import { PixelRegion, profileImage, toPixelRegions } from "./regions.ts";
+import { Emit, emitStage } from "./events.ts";
+
+// Images taller than this many widths are split into tiles
+export const TILE_ASPECT_THRESHOLD = 3;
+// Each tile is this many widths tall, so the model sees it close to full resolution
+const TILE_ASPECT = 1.5;
+// Share of a tile's height repeated in the next one, so seam-crossing elements appear whole in one tile
+const TILE_OVERLAP = 0.2;
+// How many tiles are sent to the provider at the same time
+const TILE_CONCURRENCY = 3;
+// Boxes overlapping more than this (IoU, or share of the smaller box) are duplicates
+const NMS_IOU_THRESHOLD = 0.5;
+const NMS_CONTAINMENT_THRESHOLD = 0.8;
+
+export interface Tile {
+  index: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function shouldTile(profile: ImageProfile): boolean {
+  return profile.aspectRatio > TILE_ASPECT_THRESHOLD;
+}
+
+/**
+ * Splits the page into overlapping full-width horizontal bands
+ */
+export function planTiles(width: number, height: number): Tile[] {
+  const tileHeight = Math.round(width * TILE_ASPECT);
+  const step = Math.round(tileHeight * (1 - TILE_OVERLAP));
+  const tiles: Tile[] = [];
+
+  for (let y = 0; ; y += step) {
+    const top = Math.min(y, Math.max(0, height - tileHeight));
+    tiles.push({ index: tiles.length, y: top, width, height: Math.min(tileHeight, height - top) });
+    if (top + tileHeight >= height) break;
+  }
+  return tiles;
+}
+
+export async function decodeDataUrl(dataUrl: string): Promise<Image> {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  const decoded = await decode(bytes);
+  if (!(decoded instanceof Image)) throw new Error("Animated images are not supported for tiling");
+  return decoded;
+}
+
+/**
+ * Cuts one tile out of the full image as a JPEG data URL. The tile is scaled to the
+ * decoded image's size, which may differ from the size the client reported.
+ */
+export async function encodeTile(image: Image, tile: Tile, scale: number): Promise<string> {
+  const y = Math.round(tile.y * scale);
+  const height = Math.min(image.height - y, Math.round(tile.height * scale));
+  const jpeg = await image.clone().crop(0, y, image.width, height).encodeJPEG(90);
+  return `data:image/jpeg;base64,${encodeBase64(jpeg)}`;
+}
+
+function intersectionArea(a: PixelRegion, b: PixelRegion): number {
+  const w = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return Math.max(0, w) * Math.max(0, h);
+}
+
+export function iou(a: PixelRegion, b: PixelRegion): number {
+  const intersection = intersectionArea(a, b);
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+interface TileCandidate {
+  region: PixelRegion;
+  tileIndex: number;
+  /** Touches a tile seam, so it is probably cut off */
+  clipped: boolean;
+}
+
+/**
+ * Greedy non-maximum suppression across tiles. Candidates earlier in the list win, so callers
+ * sort by priority first. Boxes from the same tile are never suppressed: the model may
+ * legitimately return nested assets (e.g. a screenshot inside a device mockup).
+ */
+export function nonMaximumSuppression(candidates: TileCandidate[]): { regions: PixelRegion[]; rejected: RegionRejection[] } {
+  const kept: TileCandidate[] = [];
+  const rejected: RegionRejection[] = [];
+  for (const candidate of candidates) {
+    const duplicateOf = kept.find((k) => {
+      if (k.tileIndex === candidate.tileIndex) return false;
+      const smallerArea = Math.min(k.region.width * k.region.height, candidate.region.width * candidate.region.height);
+      return (
+        iou(k.region, candidate.region) > NMS_IOU_THRESHOLD ||
+        intersectionArea(k.region, candidate.region) / smallerArea > NMS_CONTAINMENT_THRESHOLD
+      );
+    });
+    if (duplicateOf) {
+      rejected.push({
+        label: candidate.region.label,
+        reason: `Duplicate of "${duplicateOf.region.label}" from an overlapping section`,
+      });
+    } else {
+      kept.push(candidate);
+    }
+  }
+  return { regions: kept.map((k) => k.region), rejected };
+}
+
+/**
+ * Whether a region touches a tile edge that is a seam (not the top/bottom of the page),
+ * i.e. the element was probably cut off and is seen whole in the neighboring tile
+ */
+function touchesSeam(region: PixelRegion, tile: Tile, pageHeight: number): boolean {
+  const margin = tile.height * 0.01;
+  const touchesTop = tile.y > 0 && region.y - tile.y <= margin;
+  const touchesBottom = tile.y + tile.height < pageHeight && tile.y + tile.height - (region.y + region.height) <= margin;
+  return touchesTop || touchesBottom;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export interface TileResult {
+  tile: Tile;
+  imageName: string | null;
+  confidence: number;
+  regions: PixelRegion[];
+  rejected: RegionRejection[];
+}
+
+/**
+ * Detects every tile separately and merges the results into full-image pixel coordinates
+ */
+export async function detectTiled(
+  provider: DetectionProvider,
+  imageBase64: string,
+  profile: ImageProfile,
+  model: string | undefined,
+  emit: Emit,
+  signal?: AbortSignal,
+): Promise<{ imageName: string | null; confidence: number; regions: PixelRegion[]; rejected: RegionRejection[] }> {
+  const image = await decodeDataUrl(imageBase64);
+  const scale = image.width / profile.width;
+  const tiles = planTiles(profile.width, profile.height);
+  console.log(`Tiling ${profile.width}x${profile.height} image into ${tiles.length} tiles`);
+  emitStage(emit, "tiles-dispatched", 10, `Analyzing ${tiles.length} sections...`);
+
+  let finishedTiles = 0;
+
+  const tileResults = await mapWithConcurrency(tiles, TILE_CONCURRENCY, async (tile): Promise<TileResult> => {
+    const tileProfile = profileImage(tile.width, tile.height, { index: tile.index, count: tiles.length });
+    const result = await provider.detect({
+      imageBase64: await encodeTile(image, tile, scale),
+      profile: tileProfile,
+      model,
+      signal,
+    });
+    // Tile-relative pixels -> full-image pixels
+    const filtered = toPixelRegions(result.regions, tileProfile);
+    const regions = filtered.regions.map((region) => ({ ...region, y: region.y + tile.y }));
+    const rejected = [...result.rejected, ...filtered.rejected];
+    console.log(`Tile ${tile.index + 1}/${tiles.length}: ${regions.length} regions`);
+
+    finishedTiles++;
+    emit({ event: "regions", data: { tile: tile.index, regions } });
+    emitStage(emit, "tile-done", 10 + (80 * finishedTiles) / tiles.length, `Analyzed section ${finishedTiles} of ${tiles.length}`);
+    return { tile, imageName: result.imageName, confidence: result.confidence, regions, rejected };
+  });
+
+  // Whole elements beat seam-clipped ones, then larger boxes beat smaller ones
+  const candidates: TileCandidate[] = tileResults
+    .flatMap(({ tile, regions }) =>
+      regions.map((region) => ({ region, tileIndex: tile.index, clipped: touchesSeam(region, tile, profile.height) })),
+    )
+    .sort((a, b) => Number(a.clipped) - Number(b.clipped) || b.region.width * b.region.height - a.region.width * a.region.height);
+
+  const merged = nonMaximumSuppression(candidates);
+  merged.regions.sort((a, b) => a.y - b.y || a.x - b.x);
+  console.log(`Merged ${candidates.length} tile regions into ${merged.regions.length}`);
+  emitStage(emit, "filtered", 95, "Merging overlapping regions...");
+
+  return {
+    imageName: tileResults.find((r) => r.imageName)?.imageName ?? null,
+    confidence: tileResults.reduce((sum, r) => sum + r.confidence, 0) / tileResults.length,
+    regions: merged.regions,
+    rejected: [...tileResults.flatMap((r) => r.rejected), ...merged.rejected],
+  };
+}
@@ -0,0 +1,107 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { ProviderResult, RawRegion, REGION_TYPES, RegionRejection, RegionType } from "./providers/types.ts";
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Models sometimes answer "12.5" or "12.5%" instead of 12.5 */
+const numeric = z.preprocess(
+  (value) => (typeof value === "string" ? Number.parseFloat(value.replace("%", "")) : value),
+  z.number({ invalid_type_error: "Expected a number" }).finite(),
+);
+
+const percent = numeric.transform((value) => clamp(value, 0, 100));
+
+const optionalText = z
+  .unknown()
+  .transform((value) => (typeof value === "string" && value.trim() ? value.trim() : undefined));
+
+/** 0-1; answers on a 0-100 scale are converted */
+const confidence = numeric.transform((value) => clamp(value > 1 ? value / 100 : value, 0, 1));
+
+/** Case-insensitive, singular or plural ("Icons"); anything unknown is left unclassified */
+const regionType = z.unknown().transform((value): RegionType | undefined => {
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim().toLowerCase();
+  return REGION_TYPES.find((type) => normalized === type || normalized === `${type}s`);
+});
+
+export const RawRegionSchema = z.object({
+  x_percent: percent,
+  y_percent: percent,
+  width_percent: percent,
+  height_percent: percent,
+  label: optionalText,
+  filename: optionalText,
+  type: regionType,
+  confidence: confidence.optional(),
+});
+
+/**
+ * Top level of the model answer. Regions are validated one by one so a single
+ * malformed entry doesn't throw away the rest.
+ */
+export const ModelResponseSchema = z.object({
+  imageName: optionalText.transform((value) => value ?? null),
+  regions: z.array(z.unknown()),
+  confidence: confidence.optional().transform((value) => value ?? 0.8),
+});
+
+export type ValidationOutcome =
+  | { ok: true; result: ProviderResult; errors: string[] }
+  | { ok: false; errors: string[] };
+
+function formatIssues(error: z.ZodError, prefix = ""): string[] {
+  return error.issues.map((issue) => `${[prefix, ...issue.path].filter((p) => p !== "").join(".") || "response"}: ${issue.message}`);
+}
+
+/**
+ * Extracts the JSON object from a model answer (it might be wrapped in markdown code blocks)
+ */
+function parseModelJson(content: string): unknown {
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/) || [null, content];
+  const jsonStr = jsonMatch[1] || content;
+  return JSON.parse(jsonStr.trim());
+}
+
+/**
+ * Parses and validates a model answer. `ok` is false only when the answer as a whole is unusable;
+ * invalid regions are returned as rejections, and their issues are listed in `errors` for a re-prompt.
+ */
+export function validateModelOutput(content: string): ValidationOutcome {
+  let json: unknown;
+  try {
+    json = parseModelJson(content);
+  } catch (error) {
+    return { ok: false, errors: [`response: not valid JSON (${error instanceof Error ? error.message : error})`] };
+  }
+
+  const parsed = ModelResponseSchema.safeParse(json);
+  if (!parsed.success) {
+    return { ok: false, errors: formatIssues(parsed.error) };
+  }
+
+  const regions: RawRegion[] = [];
+  const rejected: RegionRejection[] = [];
+  const errors: string[] = [];
+
+  parsed.data.regions.forEach((entry, index) => {
+    const region = RawRegionSchema.safeParse(entry);
+    if (region.success) {
+      regions.push(region.data);
+      return;
+    }
+    const issues = formatIssues(region.error, `regions.${index}`);
+    errors.push(...issues);
+    const label = (entry as { label?: unknown } | null)?.label;
+    rejected.push({
+      label: typeof label === "string" && label ? label : `Region ${index + 1}`,
+      reason: `Malformed response: ${region.error.issues.map((issue) => `${issue.path.join(".")} ${issue.message.toLowerCase()}`).join(", ")}`,
+    });
+  });
+
+  return {
+    ok: true,
+    result: { imageName: parsed.data.imageName, regions, confidence: parsed.data.confidence, rejected },
+    errors,
+  };
+}
@@ -10,6 +10,14 @@ export default defineConfig(({ mode }) => ({
     port: 8080,
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  // The WASM codecs locate their .wasm files relative to their own modules, which pre-bundling breaks
+  optimizeDeps: {
+    exclude: ["@jsquash/avif", "@jsquash/jxl", "@jsquash/oxipng"],
+  },
+  // The encoder worker loads codecs on demand, which needs ES module workers
+  worker: {
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),